@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Analysis } from "./analysis";
+
+describe("Analysis", () => {
+  it("collects diagnostics from each stage", () => {
+    expect(new Analysis("let x = @").diagnostics.map((d) => d.code)).toEqual(["E0001"]);
+    expect(new Analysis("let x = [1 2]\nx").diagnostics.map((d) => d.code)).toEqual(["E0101"]);
+    expect(new Analysis("1 + true").diagnostics.map((d) => d.code)).toEqual(["E0201"]);
+    expect(new Analysis("nope").diagnostics.map((d) => d.code)).toEqual(["E0202"]);
+  });
+
+  it("checks imports without running them", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rill-analysis-"));
+    fs.writeFileSync(path.join(dir, "m.lv"), 'let hello = print("hello from module")\nlet n = 1');
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      const analysis = new Analysis('import "./m.lv" as m\nm.n ++ "x"', path.join(dir, "main.lv"));
+      expect(analysis.diagnostics.map((d) => d.code)).toEqual(["E0201"]);
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it("resolves types once the whole program is checked", () => {
+    // `y` is only known to be a String once it is concatenated
+    const source = 'let f = fn(x) -> (let y = x in y ++ "!")';
+    const analysis = new Analysis(source);
+    expect(analysis.typeAt(source.indexOf("y ="))?.label).toBe("y: String");
+  });
+
+  it("finds the binding of a name in a let rec group", () => {
+    const source = "let rec even = fn(n) -> n == 0 || odd(n - 1)\nand odd = fn(n) -> n != 0 && even(n - 1)\neven(4)";
+    const analysis = new Analysis(source);
+    expect(analysis.definitionAt(source.indexOf("odd(n"))?.span.start.offset).toBe(source.indexOf("odd ="));
+  });
+
+  it("offers the recursive names inside a let rec value", () => {
+    const source = "let rec loop = fn(n) -> n\nloop(1)";
+    const names = new Analysis(source).completionsAt(source.indexOf("-> n") + 3).map((c) => c.name);
+    expect(names).toContain("loop");
+    expect(names).toContain("n");
+  });
+});
@@ -0,0 +1,254 @@
+import { Binding, Decl, Expr, IdentPat, Program, childExprs, identPats } from "./ast";
+import { lex } from "./lexer";
+import { parseProgramWithErrors } from "./parser";
+import { InferContext, TypeEnv, inferProgram } from "./typechecker";
+import { Type, prettyType } from "./types";
+import { applySubst } from "./unify";
+import { createPreludeTypes } from "./prelude";
+import { ModuleLoader, withEntries } from "./modules";
+import { toDiagnostics } from "./errors";
+import { Diagnostic } from "./diagnostics";
+import { Span } from "./span";
+
+// A name bound in the program: where it is written and, once checked, its type
+export interface Definition {
+  name: string;
+  span: Span;
+  type: Type | null;
+}
+
+// Something to show on hover: an expression's type, or a name and its type
+export interface TypeInfo {
+  span: Span;
+  label: string;
+}
+
+interface Reference {
+  span: Span;
+  definition: Definition;
+}
+
+// The names visible from `start` to `end` (source offsets)
+interface Scope {
+  start: number;
+  end: number;
+  names: Map<string, Definition>;
+}
+
+// What editor tooling knows about one version of a source file. Positions
+// are source offsets.
+export class Analysis {
+  readonly diagnostics: Diagnostic[] = [];
+  private types: InferContext | null = null;
+  private definitions: Definition[] = [];
+  private references: Reference[] = [];
+  private scopes: Scope[] = [];
+
+  constructor(
+    readonly source: string,
+    // The file the source was read from; imports resolve relative to it
+    // (or to the working directory when absent)
+    file?: string,
+    private prelude: TypeEnv = createPreludeTypes(),
+  ) {
+    let program: Program;
+    try {
+      const parsed = parseProgramWithErrors(lex(source));
+      program = parsed.program;
+      this.diagnostics.push(...parsed.errors.map((e) => e.diagnostic));
+    } catch (e) {
+      this.diagnostics.push(...toDiagnostics(e));
+      return;
+    }
+    this.check(program, file);
+    this.resolve(program);
+  }
+
+  // The type under `offset`, from the innermost name or expression there
+  typeAt(offset: number): TypeInfo | null {
+    const sites: TypeInfo[] = [];
+    for (const d of this.definitions) {
+      if (d.type) sites.push({ span: d.span, label: `${d.name}: ${this.show(d.type)}` });
+    }
+    for (const [node, type] of this.types?.types ?? []) {
+      const label = node.kind === "Ident" ? `${node.name}: ${this.show(type)}` : this.show(type);
+      sites.push({ span: node.span, label });
+    }
+    return innermost(sites, offset);
+  }
+
+  // Where the name under `offset` is bound, when it is bound in this file
+  definitionAt(offset: number): Definition | null {
+    const reference = innermost(this.references, offset);
+    if (reference) return reference.definition;
+    return innermost(this.definitions, offset);
+  }
+
+  // The names in scope at `offset`, prelude builtins included, with their types
+  completionsAt(offset: number): { name: string; type: Type | null }[] {
+    const names = new Map<string, Type | null>();
+    for (const [name, scheme] of this.prelude) {
+      // Constructors of data types are written as tags, not completed as names
+      if (!scheme.ctor) names.set(name, scheme.type);
+    }
+    for (const [name, d] of innermost(this.scopes, offset)?.names ?? []) {
+      names.set(name, d.type && this.resolved(d.type));
+    }
+    return [...names].map(([name, type]) => ({ name, type }));
+  }
+
+  private check(program: Program, file?: string): void {
+    let imports;
+    try {
+      const loader = ModuleLoader.typesOnly();
+      imports = file ? loader.linkFile(program, file) : loader.link(program, process.cwd());
+    } catch (e) {
+      // Problems inside an imported file are reported at the first import
+      const span = program.decls.find((d) => d.kind === "ImportDecl")?.span ?? null;
+      this.diagnostics.push(...toDiagnostics(e).map((d) => ({ ...d, message: `In ${d.file ?? "an import"}: ${d.message}`, span, labels: [] })));
+      return;
+    }
+    this.types = new InferContext(this.source, true);
+    try {
+      inferProgram(program, withEntries(new Map(this.prelude), imports.types), this.types);
+    } catch (e) {
+      this.diagnostics.push(...toDiagnostics(e));
+    }
+  }
+
+  private resolved(type: Type): Type {
+    return this.types ? applySubst(this.types.subst, type) : type;
+  }
+
+  private show(type: Type): string {
+    return prettyType(this.resolved(type));
+  }
+
+  private typeOf(node: Expr | IdentPat): Type | null {
+    return this.types?.types?.get(node) ?? null;
+  }
+
+  // Links each name to its binding and records the names in scope in each region
+  private resolve(program: Program): void {
+    const end = this.source.length;
+    let scope = new Map<string, Definition>();
+    this.scopes.push({ start: 0, end, names: scope });
+    for (const decl of program.decls) {
+      scope = this.resolveDecl(decl, scope);
+      this.scopes.push({ start: decl.span.end.offset, end, names: scope });
+    }
+    if (program.body) this.resolveExpr(program.body, scope);
+  }
+
+  private resolveDecl(decl: Decl, scope: Map<string, Definition>): Map<string, Definition> {
+    switch (decl.kind) {
+      case "LetDecl": {
+        this.resolveExpr(decl.value, scope);
+        return this.bind(scope, decl.name, decl.nameSpan, this.typeOf(decl.value));
+      }
+      case "LetRecDecl": {
+        const inner = this.bindGroup(decl.bindings, scope);
+        this.enter(inner, decl.span.start.offset, decl.span.end.offset);
+        for (const b of decl.bindings) this.resolveExpr(b.value, inner);
+        return inner;
+      }
+      case "TypeDef":
+        return scope;
+      case "ImportDecl":
+        return this.bind(scope, decl.name, decl.span, null);
+      case "TestDecl":
+        this.resolveExpr(decl.body, scope);
+        return scope;
+    }
+  }
+
+  private resolveExpr(expr: Expr, scope: Map<string, Definition>): void {
+    switch (expr.kind) {
+      case "Ident": {
+        const definition = scope.get(expr.name);
+        if (definition) this.references.push({ span: expr.span, definition });
+        return;
+      }
+      case "Let": {
+        this.resolveExpr(expr.value, scope);
+        const inner = this.bind(scope, expr.name, expr.nameSpan, this.typeOf(expr.value));
+        this.enter(inner, expr.value.span.end.offset, expr.span.end.offset);
+        this.resolveExpr(expr.body, inner);
+        return;
+      }
+      case "LetRec": {
+        const inner = this.bindGroup(expr.bindings, scope);
+        this.enter(inner, expr.span.start.offset, expr.span.end.offset);
+        for (const b of expr.bindings) this.resolveExpr(b.value, inner);
+        this.resolveExpr(expr.body, inner);
+        return;
+      }
+      case "Fn": {
+        const fnType = this.typeOf(expr);
+        const paramType = fnType && this.resolved(fnType);
+        const inner = this.bind(scope, expr.param, expr.paramSpan, paramType?.kind === "TFn" ? paramType.param : null);
+        this.enter(inner, expr.paramSpan.end.offset, expr.span.end.offset);
+        this.resolveExpr(expr.body, inner);
+        return;
+      }
+      case "Match": {
+        this.resolveExpr(expr.subject, scope);
+        for (const c of expr.cases) {
+          const inner = new Map(scope);
+          for (const p of identPats(c.pattern)) {
+            const definition = { name: p.name, span: p.span, type: this.typeOf(p) };
+            this.definitions.push(definition);
+            inner.set(p.name, definition);
+          }
+          this.enter(inner, c.body.span.start.offset, c.body.span.end.offset);
+          this.resolveExpr(c.body, inner);
+        }
+        return;
+      }
+      case "Catch": {
+        this.resolveExpr(expr.expr, scope);
+        // The error message is bound by the catch clause itself
+        const inner = new Map(scope).set(expr.errorName, { name: expr.errorName, span: expr.span, type: { kind: "TCon", name: "String" } });
+        this.enter(inner, expr.fallback.span.start.offset, expr.fallback.span.end.offset);
+        this.resolveExpr(expr.fallback, inner);
+        return;
+      }
+      case "Import": {
+        const inner = this.bind(scope, expr.name, expr.span, null);
+        this.enter(inner, expr.body.span.start.offset, expr.body.span.end.offset);
+        this.resolveExpr(expr.body, inner);
+        return;
+      }
+      default:
+        for (const child of childExprs(expr)) this.resolveExpr(child, scope);
+    }
+  }
+
+  private bind(scope: Map<string, Definition>, name: string, span: Span, type: Type | null): Map<string, Definition> {
+    const definition = { name, span, type };
+    this.definitions.push(definition);
+    return new Map(scope).set(name, definition);
+  }
+
+  private bindGroup(bindings: Binding[], scope: Map<string, Definition>): Map<string, Definition> {
+    return bindings.reduce((inner, b) => this.bind(inner, b.name, b.nameSpan, this.typeOf(b.value)), scope);
+  }
+
+  private enter(names: Map<string, Definition>, start: number, end: number): void {
+    this.scopes.push({ start, end, names });
+  }
+}
+
+// The narrowest of `items` whose span contains `offset`; a span also contains
+// the offset just past its end, where the cursor sits after typing a name
+function innermost<T extends { span: Span } | { start: number; end: number }>(items: T[], offset: number): T | null {
+  let best: T | null = null;
+  let bestLength = Infinity;
+  for (const item of items) {
+    const [start, end] = "span" in item ? [item.span.start.offset, item.span.end.offset] : [item.start, item.end];
+    if (offset < start || offset > end || end - start >= bestLength) continue;
+    best = item;
+    bestLength = end - start;
+  }
+  return best;
+}
@@ -15,7 +15,6 @@ describe("AST", () => {
       name: "x",
       value: { kind: "IntLit", value: 5, span: dummySpan },
       body: { kind: "Ident", name: "x", span: dummySpan },
-      rec: false,
       span: dummySpan,
     };
     expect(node.kind).toBe("Let");
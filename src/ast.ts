@@ -6,10 +6,12 @@ export type Expr =
   | IntLit
   | FloatLit
   | StringLit
+  | StringInterp
   | BoolLit
   | UnitLit
   | Ident
   | Let
+  | LetRec
   | Fn
   | Call
   | BinOp
@@ -23,27 +25,53 @@ export type Expr =
   | Tuple
   | Record
   | FieldAccess
-  | Tag;
+  | Tag
+  | TypeDecl
+  | Import
+  | ErrorExpr;
 
 export interface IntLit { kind: "IntLit"; value: number; span: Span }
 export interface FloatLit { kind: "FloatLit"; value: number; span: Span }
 export interface StringLit { kind: "StringLit"; value: string; span: Span }
+// "Hello ${name}!" — `parts` holds the literal text around each hole, so
+// parts.length === exprs.length + 1
+export interface StringInterp { kind: "StringInterp"; parts: string[]; exprs: Expr[]; span: Span }
 export interface BoolLit { kind: "BoolLit"; value: boolean; span: Span }
 export interface UnitLit { kind: "UnitLit"; span: Span }
 export interface Ident { kind: "Ident"; name: string; span: Span }
+// Stands in for source the parser skipped after a syntax error
+export interface ErrorExpr { kind: "Error"; span: Span }
 
 export interface Let {
   kind: "Let";
   name: string;
+  // Where the name is written, for tools that jump to definitions
+  nameSpan: Span;
   value: Expr;
   body: Expr;
-  rec: boolean;
+  span: Span;
+}
+
+// A group of mutually recursive bindings, each visible in every value:
+//   let rec is_even = fn(n) -> ... and is_odd = fn(n) -> ... in ...
+export interface LetRec {
+  kind: "LetRec";
+  bindings: Binding[];
+  body: Expr;
+  span: Span;
+}
+
+export interface Binding {
+  name: string;
+  nameSpan: Span;
+  value: Expr;
   span: Span;
 }
 
 export interface Fn {
   kind: "Fn";
   param: string;
+  paramSpan: Span;
   body: Expr;
   span: Span;
 }
@@ -101,6 +129,7 @@ export interface Match {
 export interface MatchCase {
   pattern: Pattern;
   body: Expr;
+  span: Span;
 }
 
 export interface If {
@@ -143,6 +172,166 @@ export interface Tag {
   span: Span;
 }
 
+// Declares a nominal sum type for the scope of `body`:
+//   type Shape = Circle(Float) | Rect(Float, Float) in ...
+export interface TypeDecl {
+  kind: "TypeDecl";
+  name: string;
+  params: string[];
+  variants: Variant[];
+  body: Expr;
+  span: Span;
+}
+
+export interface Variant {
+  tag: string;
+  args: TypeExpr[];
+}
+
+// Binds the top-level bindings of another file, as a record, for the scope of `body`:
+//   import "./helpers.lv" as h in h.double(2)
+export interface Import {
+  kind: "Import";
+  path: string;
+  name: string;
+  body: Expr;
+  span: Span;
+}
+
+// The direct subexpressions of an expression, in source order
+export function childExprs(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case "IntLit":
+    case "FloatLit":
+    case "StringLit":
+    case "BoolLit":
+    case "UnitLit":
+    case "Ident":
+    case "Error": return [];
+    case "Let": return [expr.value, expr.body];
+    case "LetRec": return [...expr.bindings.map((b) => b.value), expr.body];
+    case "Fn": return [expr.body];
+    case "Call": return [expr.fn, expr.arg];
+    case "BinOp": return [expr.left, expr.right];
+    case "UnaryOp": return [expr.expr];
+    case "Pipe": return [expr.left, expr.right];
+    case "Try": return [expr.expr];
+    case "Catch": return [expr.expr, expr.fallback];
+    case "Match": return [expr.subject, ...expr.cases.map((c) => c.body)];
+    case "If": return [expr.cond, expr.then, expr.else_];
+    case "StringInterp": return expr.exprs;
+    case "List":
+    case "Tuple": return expr.elements;
+    case "Record": return expr.fields.map((f) => f.value);
+    case "FieldAccess": return [expr.expr];
+    case "Tag": return expr.args;
+    case "TypeDecl":
+    case "Import": return [expr.body];
+  }
+}
+
+// The names a pattern binds, in source order
+export function identPats(pattern: Pattern): IdentPat[] {
+  switch (pattern.kind) {
+    case "IdentPat": return [pattern];
+    case "TagPat": return pattern.args.flatMap(identPats);
+    case "TuplePat": return pattern.elements.flatMap(identPats);
+    case "RecordPat": return pattern.fields.flatMap((f) => identPats(f.pattern));
+    default: return [];
+  }
+}
+
+// ── Programs ─────────────────────────────────────────────
+
+// A file or REPL input: top-level declarations followed by an optional final expression
+export interface Program {
+  kind: "Program";
+  decls: Decl[];
+  body: Expr | null;
+  span: Span;
+}
+
+// Top-level forms of `let`, `type` and `import`: they scope over the rest of the
+// program. A `test` only sees the declarations before it.
+export type Decl = LetDecl | LetRecDecl | TypeDef | ImportDecl | TestDecl;
+
+export interface LetDecl {
+  kind: "LetDecl";
+  name: string;
+  nameSpan: Span;
+  value: Expr;
+  span: Span;
+}
+
+export interface LetRecDecl {
+  kind: "LetRecDecl";
+  bindings: Binding[];
+  span: Span;
+}
+
+export interface TypeDef {
+  kind: "TypeDef";
+  name: string;
+  params: string[];
+  variants: Variant[];
+  span: Span;
+}
+
+export interface ImportDecl {
+  kind: "ImportDecl";
+  path: string;
+  name: string;
+  span: Span;
+}
+
+// `test "name" = body`: checked with the program, but only run by `rill test`
+export interface TestDecl {
+  kind: "TestDecl";
+  name: string;
+  body: Expr;
+  span: Span;
+}
+
+// The declarations that can scope over an expression after `in`
+export type ScopedDecl = Exclude<Decl, TestDecl>;
+
+// The expression form of a declaration, scoped over `body`
+export function declWithBody(decl: ScopedDecl, body: Expr): Expr {
+  const span = { start: decl.span.start, end: body.span.end };
+  switch (decl.kind) {
+    case "LetDecl": return { kind: "Let", name: decl.name, nameSpan: decl.nameSpan, value: decl.value, body, span };
+    case "LetRecDecl": return { kind: "LetRec", bindings: decl.bindings, body, span };
+    case "TypeDef": return { kind: "TypeDecl", name: decl.name, params: decl.params, variants: decl.variants, body, span };
+    case "ImportDecl": return { kind: "Import", path: decl.path, name: decl.name, body, span };
+  }
+}
+
+// The names a declaration binds in the value environment
+export function boundNames(decl: Decl): string[] {
+  switch (decl.kind) {
+    case "LetDecl":
+    case "ImportDecl": return [decl.name];
+    case "LetRecDecl": return decl.bindings.map((b) => b.name);
+    case "TypeDef":
+    case "TestDecl": return [];
+  }
+}
+
+// ── Type expressions ─────────────────────────────────────
+
+export type TypeExpr =
+  | NamedType
+  | VarType
+  | FnType
+  | TupleType
+  | RecordType;
+
+export interface NamedType { kind: "NamedType"; name: string; args: TypeExpr[] }
+export interface VarType { kind: "VarType"; name: string }
+export interface FnType { kind: "FnType"; param: TypeExpr; ret: TypeExpr }
+export interface TupleType { kind: "TupleType"; elements: TypeExpr[] }
+export interface RecordType { kind: "RecordType"; fields: { name: string; type: TypeExpr }[] }
+
 // ── Patterns ─────────────────────────────────────────────
 
 export type Pattern =
@@ -161,7 +350,7 @@ export interface FloatPat { kind: "FloatPat"; value: number }
 export interface StringPat { kind: "StringPat"; value: string }
 export interface BoolPat { kind: "BoolPat"; value: boolean }
 export interface WildcardPat { kind: "WildcardPat" }
-export interface IdentPat { kind: "IdentPat"; name: string }
+export interface IdentPat { kind: "IdentPat"; name: string; span: Span }
 export interface TagPat { kind: "TagPat"; tag: string; args: Pattern[] }
 export interface TuplePat { kind: "TuplePat"; elements: Pattern[] }
 export interface RecordPat { kind: "RecordPat"; fields: { name: string; pattern: Pattern }[] }
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Coverage, coverageSummary, lcov, runCoverage } from "./coverage";
+import { evaluateProgram } from "./evaluator";
+import { parseProgram } from "./parser";
+import { lex } from "./lexer";
+import { createPrelude } from "./prelude";
+
+const SOURCE = [
+  "let discount = fn(tier) ->",
+  "  match tier {",
+  "    Gold -> 20,",
+  "    Silver -> 10,",
+  "    _ -> 0",
+  "  }",
+  "let first = fn(xs) -> (head(xs) |> catch e -> 0)",
+  "discount(Gold) + first([1])",
+].join("\n");
+
+// Runs `source` with coverage recorded, reporting on it
+function covered(source: string) {
+  const program = parseProgram(lex(source));
+  const coverage = new Coverage();
+  evaluateProgram(program, createPrelude(), { onStep: coverage });
+  return coverage.report("main.lv", source, program);
+}
+
+describe("Coverage", () => {
+  it("counts the expressions evaluated and the arms taken", () => {
+    const report = covered(SOURCE);
+    expect(report.arms).toEqual({ covered: 1, total: 3 });
+    expect(report.expressions.total - report.expressions.covered).toBe(3);
+  });
+
+  it("lists the arms never taken and the outermost expressions never evaluated", () => {
+    expect(covered(SOURCE).missed.map((m) => [m.kind, m.span.start.line, m.text])).toEqual([
+      ["arm", 4, "Silver -> 10"],
+      ["arm", 5, "_ -> 0"],
+      ["expression", 7, "0"],
+    ]);
+  });
+
+  it("doesn't list the arms of a match that never ran", () => {
+    const report = covered("let f = fn(x) -> match x { 1 -> true, _ -> false }\n1");
+    expect(report.missed.map((m) => [m.kind, m.text])).toEqual([["expression", "match x { 1 -> true, _ -> false }"]]);
+    expect(report.branches.map((b) => b.taken)).toEqual([null, null]);
+  });
+
+  it("counts piped catches and `?` stages that ran", () => {
+    const report = covered("let r = [1] |> head? |> catch e -> 0\nr");
+    expect(report.missed).toEqual([expect.objectContaining({ text: "0" })]);
+  });
+
+  it("counts each line by its most evaluated expression", () => {
+    const report = covered("let f = fn(x) -> x + 1\nf(1) + f(2)");
+    expect([...report.lines]).toEqual([[1, 2], [2, 1]]);
+  });
+});
+
+describe("coverage reports", () => {
+  const report = covered(SOURCE);
+
+  it("summarizes each file and what it missed", () => {
+    const summary = coverageSummary([report]);
+    expect(summary.split("\n")[0]).toBe("File     Expressions    Arms");
+    expect(summary).toContain("main.lv  85.7% (18/21)  33.3% (1/3)");
+    expect(summary).toContain("  line 4, col 5      arm never taken: Silver -> 10");
+  });
+
+  it("writes LCOV with a branch for each arm", () => {
+    const out = lcov([report]);
+    expect(out).toContain(`SF:${path.resolve("main.lv")}\n`);
+    expect(out).toContain("BRDA:3,0,0,1\nBRDA:4,0,1,0\nBRDA:5,0,2,0\nBRF:3\nBRH:1\n");
+    expect(out).toContain("DA:4,0\n");
+    expect(out.endsWith("end_of_record\n")).toBe(true);
+  });
+});
+
+describe("runCoverage", () => {
+  it("reports on the modules tests import, but not the tests", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rill-coverage-"));
+    fs.writeFileSync(path.join(dir, "pricing.lv"), SOURCE.split("\n").slice(0, 7).join("\n"));
+    fs.writeFileSync(path.join(dir, "pricing_test.lv"), 'import "./pricing.lv" as p\ntest "gold" = assert_eq(20, p.discount(Gold))');
+    const { results, coverage } = runCoverage([path.join(dir, "pricing_test.lv")]);
+    expect(results[0].tests.map((t) => t.failure)).toEqual([undefined]);
+    expect(coverage.map((c) => path.basename(c.file))).toEqual(["pricing.lv"]);
+    expect(coverage[0].missed.map((m) => m.text)).toEqual(["Silver -> 10", "_ -> 0", "head(xs) |> catch e -> 0"]);
+  });
+});
@@ -0,0 +1,171 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { Expr, Program, childExprs } from "./ast";
+import { StepHook } from "./evaluator";
+import { ModuleLoader } from "./modules";
+import { TestFileResult, isTestFile, runTestFile } from "./testing";
+import { Span, excerpt, formatSpan } from "./span";
+
+// Something a run never reached
+export interface Missed {
+  kind: "expression" | "arm";
+  span: Span;
+  // The first line of its source
+  text: string;
+}
+
+// How often a match arm was taken; null when the match itself never ran
+export interface Branch {
+  line: number;
+  // The match, numbered in source order, and the arm within it
+  block: number;
+  arm: number;
+  taken: number | null;
+}
+
+export interface FileCoverage {
+  file: string;
+  expressions: { covered: number; total: number };
+  arms: { covered: number; total: number };
+  // The outermost expressions never evaluated and the arms never taken of
+  // matches that ran, in source order
+  missed: Missed[];
+  // The most times any expression starting on each line was evaluated
+  lines: Map<number, number>;
+  branches: Branch[];
+}
+
+// The longest excerpt of source shown for something missed
+const EXCERPT_WIDTH = 40;
+
+// Counts how often each expression is evaluated, as a step hook. An arm is
+// taken when its body is evaluated.
+export class Coverage implements StepHook {
+  private hits = new Map<Expr, number>();
+
+  step(expr: Expr): void {
+    this.hit(expr);
+    // The evaluator applies a piped `catch` or `f?` without stepping into the
+    // node on the right
+    if (expr.kind === "Pipe" && (expr.right.kind === "Catch" || expr.right.kind === "Try")) this.hit(expr.right);
+  }
+
+  private hit(expr: Expr): void {
+    this.hits.set(expr, this.hitsOf(expr) + 1);
+  }
+
+  hitsOf(expr: Expr): number {
+    return this.hits.get(expr) ?? 0;
+  }
+
+  // The coverage of a program by what has been evaluated so far
+  report(file: string, source: string, program: Program): FileCoverage {
+    const result: FileCoverage = {
+      file,
+      expressions: { covered: 0, total: 0 },
+      arms: { covered: 0, total: 0 },
+      missed: [],
+      lines: new Map(),
+      branches: [],
+    };
+    let blocks = 0;
+    const miss = (kind: Missed["kind"], span: Span) => result.missed.push({ kind, span, text: excerpt(source, span, EXCERPT_WIDTH) });
+
+    // `reported` is whether something enclosing the expression is already missed
+    const visit = (expr: Expr, reported: boolean) => {
+      const hits = this.hitsOf(expr);
+      result.expressions.total++;
+      if (hits > 0) result.expressions.covered++;
+      const line = expr.span.start.line;
+      result.lines.set(line, Math.max(result.lines.get(line) ?? 0, hits));
+      if (hits === 0 && !reported) miss("expression", expr.span);
+      reported ||= hits === 0;
+
+      switch (expr.kind) {
+        case "Match": {
+          visit(expr.subject, reported);
+          const block = blocks++;
+          expr.cases.forEach((c, arm) => {
+            const taken = this.hitsOf(c.body);
+            result.arms.total++;
+            if (taken > 0) result.arms.covered++;
+            result.branches.push({ line: c.span.start.line, block, arm, taken: hits > 0 ? taken : null });
+            if (taken === 0 && !reported) miss("arm", c.span);
+            visit(c.body, reported || taken === 0);
+          });
+          return;
+        }
+        // The expression a catch recovers from is a placeholder the pipe fills in
+        case "Catch":
+          visit(expr.fallback, reported);
+          return;
+        case "Error":
+          return;
+      }
+      for (const child of childExprs(expr)) visit(child, reported);
+    };
+
+    for (const decl of program.decls) {
+      if (decl.kind === "LetDecl") visit(decl.value, false);
+      if (decl.kind === "LetRecDecl") decl.bindings.forEach((b) => visit(b.value, false));
+      if (decl.kind === "TestDecl") visit(decl.body, false);
+    }
+    if (program.body) visit(program.body, false);
+    result.missed.sort((a, b) => a.span.start.offset - b.span.start.offset);
+    return result;
+  }
+}
+
+// Runs the tests in `files` with coverage recorded, reporting on every file
+// they ran other than the test files themselves: the files given that aren't
+// tests, and the modules any of them imported
+export function runCoverage(files: string[]): { results: TestFileResult[]; coverage: FileCoverage[] } {
+  const coverage = new Coverage();
+  const loader = new ModuleLoader(undefined, { onStep: coverage });
+  const results = files.map((file) => runTestFile(file, { loader, onStep: coverage }));
+  const reports: FileCoverage[] = [];
+  for (const result of results) {
+    if (!result.program || result.error !== undefined || isTestFile(result.file)) continue;
+    reports.push(coverage.report(result.file, fs.readFileSync(result.file, "utf-8"), result.program));
+  }
+  const run = new Set(results.map((r) => path.resolve(r.file)));
+  for (const module of loader.loaded()) {
+    if (run.has(module.path) || isTestFile(module.path)) continue;
+    reports.push(coverage.report(path.relative(process.cwd(), module.path), module.source, module.ast));
+  }
+  return { results, coverage: reports.sort((a, b) => a.file.localeCompare(b.file)) };
+}
+
+// A table of each file's coverage, then what each file missed
+export function coverageSummary(files: FileCoverage[]): string {
+  const rows = files.map((f) => [f.file, percent(f.expressions), percent(f.arms)]);
+  const widths = [0, 1, 2].map((i) => Math.max(...[["File", "Expressions", "Arms"], ...rows].map((r) => r[i].length)));
+  const out = [["File", "Expressions", "Arms"], ...rows].map((r) => r.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+  for (const f of files) {
+    if (f.missed.length === 0) continue;
+    out.push("", f.file);
+    for (const m of f.missed) {
+      out.push(`  ${formatSpan(m.span).padEnd(18)} ${m.kind === "arm" ? "arm never taken" : "never evaluated"}: ${m.text}`);
+    }
+  }
+  return out.join("\n");
+}
+
+// The coverage in LCOV's tracefile format, for coverage tools and CI
+export function lcov(files: FileCoverage[]): string {
+  const out: string[] = [];
+  for (const f of files) {
+    out.push("TN:", `SF:${path.resolve(f.file)}`);
+    for (const b of f.branches) out.push(`BRDA:${b.line},${b.block},${b.arm},${b.taken ?? "-"}`);
+    out.push(`BRF:${f.branches.length}`, `BRH:${f.branches.filter((b) => b.taken).length}`);
+    const lines = [...f.lines].sort(([a], [b]) => a - b);
+    for (const [line, hits] of lines) out.push(`DA:${line},${hits}`);
+    out.push(`LF:${lines.length}`, `LH:${lines.filter(([, hits]) => hits > 0).length}`, "end_of_record");
+  }
+  return out.join("\n") + "\n";
+}
+
+function percent({ covered, total }: { covered: number; total: number }): string {
+  const share = total === 0 ? "-" : `${((covered / total) * 100).toFixed(1)}%`;
+  return `${share} (${covered}/${total})`;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { Debugger, DebugIO } from "./debugger";
+import { runSource } from "./runner";
+
+const SOURCE = [
+  "let double = fn(x) -> x * 2",
+  "let rec add_up = fn(xs) -> match length(xs) == 0 {",
+  "  true -> 0,",
+  "  false -> head(xs)? + add_up(tail(xs)?)",
+  "}",
+  "let total = add_up([1, 2]) |> double",
+  "total |> to_string",
+].join("\n");
+
+// Runs `source` under the debugger, answering its prompts with `commands` in turn
+function debug(source: string, commands: string[]) {
+  const written: string[] = [];
+  const io: DebugIO = {
+    read: () => commands.shift() ?? null,
+    write: (text) => written.push(text),
+  };
+  const result = runSource(source, { onStep: new Debugger(source, io) });
+  const output = written.join("");
+  // The line of each place evaluation paused
+  const pauses = [...output.matchAll(/Paused at line (\d+), col (\d+)/g)].map((m) => `${m[1]}:${m[2]}`);
+  return { result, output, pauses, unread: commands };
+}
+
+describe("Debugger", () => {
+  it("pauses before the first expression and runs to the end on continue", () => {
+    const { result, output, pauses } = debug(SOURCE, ["continue"]);
+    expect(pauses).toEqual(["1:14"]);
+    expect(output).toContain("1 | let double = fn(x) -> x * 2\n  |              ^^^^^^^^^^^^^^");
+    expect(result.output).toBe('"6"');
+  });
+
+  it("pauses at a breakpoint each time evaluation reaches its line", () => {
+    const { result, pauses } = debug(SOURCE, ["break 4", "c", "c", "c"]);
+    expect(pauses).toEqual(["1:14", "4:12", "4:12"]);
+    expect(result.output).toBe('"6"');
+  });
+
+  it("clears breakpoints", () => {
+    const { pauses } = debug(SOURCE, ["b 4", "c", "clear 4", "c"]);
+    expect(pauses).toEqual(["1:14", "4:12"]);
+  });
+
+  it("shows the bindings in scope, without the prelude", () => {
+    const { output } = debug(SOURCE, ["b 4", "c", "env", "c", "c"]);
+    expect(output).toContain("double = <fn>\nadd_up = <fn>\nxs = [1, 2]\n");
+    expect(output).not.toContain("<builtin:");
+  });
+
+  it("evaluates expressions in the paused scope", () => {
+    const { output } = debug(SOURCE, ["b 4", "c", "p length(xs) + 10", "print xs |> map(double)", "p nope", "c", "c"]);
+    expect(output).toContain("12\n[2, 4]\n");
+    expect(output).toContain("error[E0301]: Undefined variable: nope");
+  });
+
+  it("steps into, over and out of calls and pipes", () => {
+    // The pipe, the call on its left, the start of `add_up`'s body, the first call there
+    expect(debug(SOURCE, ["b 6", "c", "s", "s", "s", "c"]).pauses).toEqual(["1:14", "6:13", "6:13", "2:28", "2:34"]);
+    // `head(xs)`, then over it to `add_up(...)`, then over that and out of the returning calls
+    expect(debug(SOURCE, ["b 4", "c", "clear 4", "n", "n", "n", "c"]).pauses).toEqual(["1:14", "4:12", "4:12", "4:24", "7:1"]);
+    // Out of `add_up` to the pipe after it
+    expect(debug(SOURCE, ["s", "s", "s", "o", "c"]).pauses).toEqual(["1:14", "6:13", "6:13", "2:28", "7:1"]);
+  });
+
+  it("stops the program on quit or at the end of input", () => {
+    const quit = debug(SOURCE, ["q", "c"]);
+    expect(quit.result.error).toContain("Stopped in the debugger");
+    expect(quit.unread).toEqual(["c"]);
+    expect(debug(SOURCE, []).result.error).toContain("Stopped in the debugger");
+  });
+
+  it("explains commands it doesn't know", () => {
+    const { output } = debug(SOURCE, ["frobnicate", "break", "help", "c"]);
+    expect(output).toContain("Unknown command: frobnicate (try help)");
+    expect(output).toContain("Usage: break <line>");
+    expect(output).toContain("evaluate an expression in the paused scope");
+  });
+});
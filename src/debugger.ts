@@ -0,0 +1,245 @@
+import * as fs from "node:fs";
+import { Expr } from "./ast";
+import { lex } from "./lexer";
+import { parse } from "./parser";
+import { StepHook, evaluate } from "./evaluator";
+import { Value, prettyPrint } from "./values";
+import { RunResult, runSource } from "./runner";
+import { RillRuntimeError, toDiagnostics } from "./errors";
+import { renderDiagnostic } from "./diagnostics";
+import { Span, formatSpan } from "./span";
+
+// Where the debugger reads commands and writes what it shows. Reading blocks:
+// evaluation is paused until a command arrives. `read` returns null at the end
+// of input.
+export interface DebugIO {
+  read(prompt: string): string | null;
+  write(text: string): void;
+}
+
+// When to pause next
+type Mode =
+  | { kind: "start" }
+  | { kind: "continue" }
+  | { kind: "into" }
+  // Past the call or pipe paused at, when it was one
+  | { kind: "over"; depth: number; span: Span | null }
+  | { kind: "out"; depth: number };
+
+const HELP = [
+  "break <line>, b <line>   pause whenever evaluation reaches the line",
+  "clear <line>             remove the breakpoint on the line",
+  "step, s                  run to the next call or pipe, or into a function",
+  "next, n                  run to the next call or pipe in this function",
+  "out, o                   run until this function returns",
+  "continue, c              run to the next breakpoint",
+  "env                      show the bindings in scope",
+  "print <expr>, p <expr>   evaluate an expression in the paused scope",
+  "where, w                 show where evaluation is paused",
+  "quit, q                  stop the program",
+].join("\n");
+
+// Pauses evaluation at breakpoints and steps, taking commands from `io`.
+// Steps stop at calls and pipes, where functions are applied.
+export class Debugger implements StepHook {
+  private breakpoints = new Set<number>();
+  private mode: Mode = { kind: "start" };
+  // The line last evaluated at each depth of calls, up to the current one
+  private lines: number[] = [];
+  private depth = 0;
+  // The span of the expression last paused at
+  private paused: Span | null = null;
+
+  constructor(
+    private source: string,
+    private io: DebugIO,
+  ) {}
+
+  step(expr: Expr, env: Map<string, Value>, depth: number): void {
+    const line = expr.span.start.line;
+    const entered = depth > this.depth;
+    if (entered) this.lines.length = this.depth + 1;
+    // A breakpoint pauses once each time evaluation arrives at its line, not
+    // when a call made from the line returns to it
+    const arrived = this.lines[depth] !== line;
+    this.lines[depth] = line;
+    this.depth = depth;
+    if ((arrived && this.breakpoints.has(line)) || this.shouldStep(expr, depth, entered)) this.pause(expr, env, depth);
+  }
+
+  private shouldStep(expr: Expr, depth: number, entered: boolean): boolean {
+    const mode = this.mode;
+    if (mode.kind === "start") return true;
+    // Stepping into a function pauses at the start of its body
+    if (mode.kind === "into" && entered) return true;
+    if (expr.kind !== "Call" && expr.kind !== "Pipe") return false;
+    switch (mode.kind) {
+      case "continue":
+        return false;
+      case "into":
+        // The calls of a curried application all share its span
+        return !this.paused || !sameSpan(expr.span, this.paused);
+      case "over":
+        return depth < mode.depth || (depth === mode.depth && !(mode.span && within(expr.span, mode.span)));
+      case "out":
+        return depth < mode.depth;
+    }
+  }
+
+  private pause(expr: Expr, env: Map<string, Value>, depth: number): void {
+    this.paused = expr.span;
+    this.io.write(this.location(expr.span) + "\n");
+    for (;;) {
+      const input = this.io.read("debug> ");
+      if (input === null) throw new RillRuntimeError("Stopped in the debugger", expr.span);
+      const [command, ...rest] = input.trim().split(/\s+/);
+      const argument = input.trim().slice(command.length).trim();
+      switch (command) {
+        case "":
+          continue;
+        case "break":
+        case "b":
+        case "clear": {
+          const line = Number(rest[0]);
+          if (!Number.isInteger(line) || line < 1) {
+            this.io.write(`Usage: ${command} <line>\n`);
+          } else if (command === "clear") {
+            this.breakpoints.delete(line);
+            this.io.write(`Cleared the breakpoint on line ${line}\n`);
+          } else {
+            this.breakpoints.add(line);
+            this.io.write(`Breakpoint on line ${line}\n`);
+          }
+          continue;
+        }
+        case "step":
+        case "s":
+          this.mode = { kind: "into" };
+          return;
+        case "next":
+        case "n":
+          this.mode = { kind: "over", depth, span: expr.kind === "Call" || expr.kind === "Pipe" ? expr.span : null };
+          return;
+        case "out":
+        case "o":
+          this.mode = { kind: "out", depth };
+          return;
+        case "continue":
+        case "c":
+          this.mode = { kind: "continue" };
+          return;
+        case "env":
+          this.io.write(showEnv(env) + "\n");
+          continue;
+        case "print":
+        case "p":
+          this.io.write(evaluateIn(argument, env) + "\n");
+          continue;
+        case "where":
+        case "w":
+          this.io.write(this.location(expr.span) + "\n");
+          continue;
+        case "quit":
+        case "q":
+          throw new RillRuntimeError("Stopped in the debugger", expr.span);
+        case "help":
+        case "h":
+          this.io.write(HELP + "\n");
+          continue;
+        default:
+          this.io.write(`Unknown command: ${command} (try help)\n`);
+      }
+    }
+  }
+
+  // The paused expression, underlined on its first line
+  private location(span: Span): string {
+    const text = this.source.split("\n")[span.start.line - 1] ?? "";
+    const number = String(span.start.line);
+    const end = span.end.line === span.start.line ? span.end.col : text.length + 1;
+    return [
+      `Paused at ${formatSpan(span)}`,
+      `${number} | ${text}`,
+      `${" ".repeat(number.length)} | ${" ".repeat(span.start.col - 1)}${"^".repeat(Math.max(1, end - span.start.col))}`,
+    ].join("\n");
+  }
+}
+
+// Runs a file under the debugger, paused before its first expression
+export function debugFile(file: string, io: DebugIO): RunResult {
+  let source: string;
+  try {
+    source = fs.readFileSync(file, "utf-8");
+  } catch (e: any) {
+    return { error: `Error reading file: ${e.message}` };
+  }
+  return runSource(source, { file, onStep: new Debugger(source, io) });
+}
+
+// Reads commands from standard input. Evaluation can't yield to the event
+// loop while paused, so each line is read synchronously.
+export function terminalIO(): DebugIO {
+  const chunk = Buffer.alloc(4096);
+  // Waited on to sleep between reads of a non-blocking stdin
+  const idle = new Int32Array(new SharedArrayBuffer(4));
+  let buffered = "";
+  return {
+    write: (text) => process.stdout.write(text),
+    read(prompt) {
+      process.stdout.write(prompt);
+      while (!buffered.includes("\n")) {
+        let n: number;
+        try {
+          n = fs.readSync(0, chunk, 0, chunk.length, null);
+        } catch (e: any) {
+          // A non-blocking stdin has nothing yet; wait a little rather than spin
+          if (e.code === "EAGAIN") {
+            Atomics.wait(idle, 0, 0, 20);
+            continue;
+          }
+          if (e.code === "EOF") n = 0;
+          else throw e;
+        }
+        if (n === 0) {
+          const last = buffered;
+          buffered = "";
+          return last === "" ? null : last;
+        }
+        buffered += chunk.toString("utf-8", 0, n);
+      }
+      const newline = buffered.indexOf("\n");
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      return line.replace(/\r$/, "");
+    },
+  };
+}
+
+// The bindings a program has made, leaving out the prelude's builtins and
+// loaded modules
+function showEnv(env: Map<string, Value>): string {
+  const lines: string[] = [];
+  for (const [name, value] of env) {
+    if (!/^[a-z_]\w*$/.test(name)) continue;
+    if (value.kind === "BuiltinFn" && value.name === name && value.applied.length === 0) continue;
+    lines.push(`${name} = ${prettyPrint(value)}`);
+  }
+  return lines.join("\n") || "(no bindings)";
+}
+
+function evaluateIn(text: string, env: Map<string, Value>): string {
+  if (text === "") return "Usage: print <expr>";
+  try {
+    return prettyPrint(evaluate(parse(lex(text)), env));
+  } catch (e) {
+    return toDiagnostics(e).map((d) => renderDiagnostic(d, text)).join("\n\n");
+  }
+}
+
+function sameSpan(a: Span, b: Span): boolean {
+  return a.start.offset === b.start.offset && a.end.offset === b.end.offset;
+}
+
+function within(inner: Span, outer: Span): boolean {
+  return inner.start.offset >= outer.start.offset && inner.end.offset <= outer.end.offset;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { Diagnostic, renderDiagnostic } from "./diagnostics";
+import { Span } from "./span";
+import { RillSyntaxError, toDiagnostic } from "./errors";
+import { lex } from "./lexer";
+import { parse } from "./parser";
+
+function span(line: number, col: number, endLine: number, endCol: number): Span {
+  return { start: { line, col, offset: 0 }, end: { line: endLine, col: endCol, offset: 0 } };
+}
+
+function diagnostic(fields: Partial<Diagnostic>): Diagnostic {
+  return { code: "E0201", severity: "error", message: "Cannot unify Int with String", span: null, labels: [], notes: [], ...fields };
+}
+
+describe("renderDiagnostic", () => {
+  it("underlines the primary span with its labels beneath", () => {
+    const d = diagnostic({
+      span: span(1, 1, 1, 8),
+      labels: [{ span: span(1, 5, 1, 8), message: "this is String" }],
+    });
+    expect(renderDiagnostic(d, '1 + "a"')).toBe([
+      "error[E0201]: Cannot unify Int with String",
+      " --> line 1, col 1",
+      "  |",
+      '1 | 1 + "a"',
+      "  | ^^^^^^^",
+      "  |     --- this is String",
+    ].join("\n"));
+  });
+
+  it("underlines every line of a multi-line span", () => {
+    const source = "let f = fn(s) -> match s {\n  A -> 1\n}\nf";
+    const d = diagnostic({ code: "E0203", message: "Non-exhaustive match: missing B", span: span(1, 18, 3, 2) });
+    expect(renderDiagnostic(d, source)).toBe([
+      "error[E0203]: Non-exhaustive match: missing B",
+      " --> line 1, col 18",
+      "  |",
+      "1 | let f = fn(s) -> match s {",
+      "  |                  ^^^^^^^^^",
+      "2 |   A -> 1",
+      "  |   ^^^^^^",
+      "3 | }",
+      "  | ^",
+    ].join("\n"));
+  });
+
+  it("marks skipped lines between distant spans", () => {
+    const source = "a\nb\nc\nd";
+    const d = diagnostic({ span: span(4, 1, 4, 2), labels: [{ span: span(1, 1, 1, 2), message: "defined here" }] });
+    expect(renderDiagnostic(d, source)).toContain("1 | a\n  | - defined here\n  ...\n4 | d");
+  });
+
+  it("shows the file and notes", () => {
+    const d = diagnostic({ span: span(2, 3, 2, 4), notes: ["add a `_` case"], file: "main.lv" });
+    const rendered = renderDiagnostic(d);
+    expect(rendered).toContain(" --> main.lv, line 2, col 3");
+    expect(rendered).toContain(" = note: add a `_` case");
+  });
+
+  it("renders a diagnostic without a span as just its header", () => {
+    expect(renderDiagnostic(diagnostic({ code: "E0301", message: "No matching pattern" }), "x")).toBe("error[E0301]: No matching pattern");
+  });
+});
+
+describe("toDiagnostic", () => {
+  it("carries the code and span of syntax errors", () => {
+    let error: unknown;
+    try {
+      parse(lex("let x = in 1"));
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(RillSyntaxError);
+    const d = toDiagnostic(error);
+    expect(d.code).toBe("E0101");
+    expect(d.span?.start).toEqual({ line: 1, col: 9, offset: 8 });
+  });
+
+  it("gives each lexer error its own code", () => {
+    const codeOf = (source: string) => {
+      try {
+        lex(source);
+      } catch (e) {
+        return toDiagnostic(e).code;
+      }
+    };
+    expect(codeOf("let x = @")).toBe("E0001");
+    expect(codeOf('"hello')).toBe("E0002");
+    expect(codeOf('"a ${b')).toBe("E0003");
+  });
+
+  it("reports other errors as span-less runtime errors", () => {
+    expect(toDiagnostic(new Error("No matching pattern"))).toEqual({
+      code: "E0301", severity: "error", message: "No matching pattern", span: null, labels: [], notes: [],
+    });
+  });
+});
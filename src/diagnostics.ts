@@ -0,0 +1,104 @@
+import { Span, formatSpan } from "./span";
+
+export type Severity = "error" | "warning" | "info";
+
+// A secondary span pointing at something that explains the diagnostic
+export interface Label {
+  span: Span;
+  message: string;
+}
+
+// A problem found in a program, in a form the CLI, editors and CI can all consume
+export interface Diagnostic {
+  code: string;
+  severity: Severity;
+  message: string;
+  // Where the problem is, when it is known
+  span: Span | null;
+  labels: Label[];
+  notes: string[];
+  // The file the spans refer to, when it isn't the program being run
+  file?: string;
+}
+
+export const Codes = {
+  UnexpectedCharacter: "E0001",
+  UnterminatedString: "E0002",
+  UnterminatedInterpolation: "E0003",
+  UnexpectedToken: "E0101",
+  TypeMismatch: "E0201",
+  UndefinedVariable: "E0202",
+  NonExhaustiveMatch: "E0203",
+  TypeError: "E0204",
+  UnknownType: "E0205",
+  RuntimeError: "E0301",
+  StepLimit: "E0302",
+  Timeout: "E0303",
+  MemoryLimit: "E0304",
+  AssertionFailed: "E0305",
+  ModuleError: "E0401",
+  FileNotReadable: "E0402",
+  UnusedBinding: "W0501",
+  UnusedParameter: "W0502",
+  ShadowedName: "W0503",
+  UnreachableArm: "W0504",
+  TryOutsideResult: "W0505",
+  ShadowedBuiltin: "W0506",
+} as const;
+
+// The diagnostic for a source file that couldn't be read
+export function fileNotReadable(file: string, e: unknown): Diagnostic {
+  const message = `Error reading file: ${e instanceof Error ? e.message : String(e)}`;
+  return { code: Codes.FileNotReadable, severity: "error", message, span: null, labels: [], notes: [], file };
+}
+
+// Renders a diagnostic for a terminal:
+//
+//   error[E0201]: Cannot unify Int with String
+//    --> line 1, col 1
+//     |
+//   1 | 1 + "a"
+//     | ^^^^^^^
+//     | - this is Int
+//     |     --- this is String
+export function renderDiagnostic(d: Diagnostic, source?: string): string {
+  const out = [`${d.severity}[${d.code}]: ${d.message}`];
+  if (d.span) out.push(` --> ${d.file ? `${d.file}, ` : ""}${formatSpan(d.span)}`);
+
+  const marks = [
+    ...(d.span ? [{ span: d.span, message: "", primary: true }] : []),
+    ...d.labels.map((l) => ({ ...l, primary: false })),
+  ];
+  const sourceLines = source?.split("\n") ?? [];
+  const lineNumbers = [...new Set(marks.flatMap((m) => range(m.span.start.line, m.span.end.line)))]
+    .filter((n) => n <= sourceLines.length)
+    .sort((a, b) => a - b);
+  const width = String(lineNumbers[lineNumbers.length - 1] ?? "").length;
+  const gutter = " ".repeat(width);
+
+  if (lineNumbers.length > 0) out.push(`${gutter} |`);
+  lineNumbers.forEach((n, i) => {
+    if (i > 0 && n > lineNumbers[i - 1] + 1) out.push(`${gutter} ...`);
+    const text = sourceLines[n - 1];
+    out.push(`${String(n).padStart(width)} | ${text}`);
+    // One underline row per span touching this line; a span covering several
+    // lines is underlined on each, from its first non-blank column
+    for (const m of marks) {
+      if (n < m.span.start.line || n > m.span.end.line) continue;
+      const from = n === m.span.start.line ? m.span.start.col : text.length - text.trimStart().length + 1;
+      const to = n === m.span.end.line ? m.span.end.col : text.length + 1;
+      const underline = (m.primary ? "^" : "-").repeat(Math.max(1, to - from));
+      const message = n === m.span.end.line && m.message ? ` ${m.message}` : "";
+      out.push(`${gutter} | ${" ".repeat(from - 1)}${underline}${message}`);
+    }
+  });
+
+  for (const note of d.notes) out.push(`${gutter} = note: ${note}`);
+  return out.join("\n");
+}
+
+function range(from: number, to: number): number[] {
+  const numbers: number[] = [];
+  for (let n = from; n <= to; n++) numbers.push(n);
+  return numbers;
+}
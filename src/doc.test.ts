@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { Doc, choice, group, hardline, ifBreak, join, line, lineSuffix, nest, render, softline } from "./doc";
+
+// A bracketed, comma-separated list that breaks one item per line
+function list(items: string[]): Doc {
+  return group(["[", nest(2, [softline, join([",", line], items), ifBreak(",")]), softline, "]"]);
+}
+
+describe("render", () => {
+  it("lays a group out flat when it fits", () => {
+    expect(render(list(["a", "b", "c"]), 20)).toBe("[a, b, c]");
+  });
+
+  it("breaks a group that doesn't fit at each of its lines", () => {
+    expect(render(list(["alpha", "beta", "gamma"]), 12)).toBe("[\n  alpha,\n  beta,\n  gamma,\n]");
+  });
+
+  it("counts what follows a group up to the next line break", () => {
+    const doc = [list(["a", "b"]), " ++ rest", hardline, "next"];
+    expect(render(doc, 16)).toBe("[a, b] ++ rest\nnext");
+    expect(render(doc, 10)).toBe("[\n  a,\n  b,\n] ++ rest\nnext");
+  });
+
+  it("always breaks a group holding a hard break", () => {
+    expect(render(group(["a", line, "b", hardline, "c"]), 80)).toBe("a\nb\nc");
+  });
+
+  it("picks the first layout whose first line fits", () => {
+    const doc = choice("a very long layout", "short");
+    expect(render(doc, 40)).toBe("a very long layout");
+    expect(render(doc, 10)).toBe("short");
+    expect(render(choice("too long", "also too long"), 4)).toBe("also too long");
+  });
+
+  it("puts line suffixes off to the end of the line, breaking their group", () => {
+    expect(render(list(["a", ["b", lineSuffix(" -- b")], "c"]), 80)).toBe("[\n  a,\n  b, -- b\n  c,\n]");
+  });
+
+  it("trims trailing spaces", () => {
+    expect(render(["a ", hardline, "b"], 80)).toBe("a\nb");
+  });
+});
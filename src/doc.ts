@@ -0,0 +1,164 @@
+// Documents for width-aware layout, after Wadler's "A prettier printer". A
+// group is laid out on one line when it fits in the remaining width; otherwise
+// each of its own line breaks becomes a newline at the current indentation.
+
+export type Doc =
+  | string
+  | Doc[]
+  // A line break, or `flat` when its group fits on one line. Hard breaks always break.
+  | { kind: "Line"; flat: string; hard: boolean }
+  // A line break unless the output is already at the start of a line
+  | { kind: "Fresh" }
+  // Text put off to the end of the line, like a comment after code. It breaks
+  // its groups, so that code after it goes on later lines.
+  | { kind: "LineSuffix"; text: string }
+  | { kind: "Nest"; indent: number; doc: Doc }
+  // `broken` when the enclosing group is broken over several lines, else `flat`
+  | { kind: "IfBreak"; broken: Doc; flat: Doc }
+  // `broken` groups hold a hard break, so never fit on one line
+  | { kind: "Group"; doc: Doc; broken: boolean }
+  // The first of several layouts whose first line fits, or else the last
+  | { kind: "Choice"; options: Doc[] };
+
+export const line: Doc = { kind: "Line", flat: " ", hard: false };
+export const softline: Doc = { kind: "Line", flat: "", hard: false };
+export const hardline: Doc = { kind: "Line", flat: "", hard: true };
+export const freshline: Doc = { kind: "Fresh" };
+
+export function lineSuffix(text: string): Doc {
+  return { kind: "LineSuffix", text };
+}
+
+export function nest(indent: number, doc: Doc): Doc {
+  return { kind: "Nest", indent, doc };
+}
+
+export function ifBreak(broken: Doc, flat: Doc = ""): Doc {
+  return { kind: "IfBreak", broken, flat };
+}
+
+export function group(doc: Doc, broken = false): Doc {
+  return { kind: "Group", doc, broken: broken || hasHardBreak(doc) };
+}
+
+// Layouts to try in order. Each is measured flat up to its first broken group
+// and laid out with its groups deciding for themselves. The first must hold
+// any hard breaks the others have.
+export function choice(...options: Doc[]): Doc {
+  return { kind: "Choice", options };
+}
+
+export function join(separator: Doc, docs: Doc[]): Doc[] {
+  return docs.flatMap((doc, i) => (i === 0 ? [doc] : [separator, doc]));
+}
+
+export function hasHardBreak(doc: Doc): boolean {
+  if (typeof doc === "string") return false;
+  if (Array.isArray(doc)) return doc.some(hasHardBreak);
+  switch (doc.kind) {
+    case "Line": return doc.hard;
+    case "Fresh": return true;
+    case "LineSuffix": return true;
+    case "Nest": return hasHardBreak(doc.doc);
+    case "IfBreak": return hasHardBreak(doc.flat);
+    case "Group": return doc.broken;
+    case "Choice": return hasHardBreak(doc.options[0]);
+  }
+}
+
+// A doc waiting to be laid out, with the indentation and mode it is in
+type Command = [indent: number, flat: boolean, doc: Doc];
+
+export function render(doc: Doc, width: number): string {
+  const lines: string[] = [];
+  let current = "";
+  let suffix = "";
+  const commands: Command[] = [[0, false, doc]];
+  const newline = (indent: number) => {
+    lines.push((current + suffix).trimEnd());
+    current = " ".repeat(indent);
+    suffix = "";
+  };
+
+  while (commands.length > 0) {
+    const [indent, flat, d] = commands.pop()!;
+    if (typeof d === "string") {
+      current += d;
+    } else if (Array.isArray(d)) {
+      for (let i = d.length - 1; i >= 0; i--) commands.push([indent, flat, d[i]]);
+    } else {
+      switch (d.kind) {
+        case "Line":
+          if (flat && !d.hard) current += d.flat;
+          else newline(indent);
+          break;
+        case "Fresh":
+          if (current.trim() !== "" || suffix !== "") newline(indent);
+          break;
+        case "LineSuffix":
+          suffix += d.text;
+          break;
+        case "Nest":
+          commands.push([indent + d.indent, flat, d.doc]);
+          break;
+        case "IfBreak":
+          commands.push([indent, flat, flat ? d.flat : d.broken]);
+          break;
+        case "Group":
+          commands.push([indent, flat || (!d.broken && fits(width - current.length, [indent, true, d.doc], commands)), d.doc]);
+          break;
+        case "Choice": {
+          const option = flat ? d.options[0] : d.options.find((o) => fits(width - current.length, [indent, true, o], commands));
+          commands.push([indent, flat, option ?? d.options[d.options.length - 1]]);
+          break;
+        }
+      }
+    }
+  }
+  lines.push((current + suffix).trimEnd());
+  return lines.join("\n");
+}
+
+// Whether `next` fits in `width` columns, along with whatever follows it up to
+// the next line break
+function fits(width: number, next: Command, rest: Command[]): boolean {
+  const commands = [next];
+  let restIndex = rest.length;
+  while (width >= 0) {
+    if (commands.length === 0) {
+      if (restIndex === 0) return true;
+      commands.push(rest[--restIndex]);
+      continue;
+    }
+    const [indent, flat, d] = commands.pop()!;
+    if (typeof d === "string") {
+      width -= d.length;
+    } else if (Array.isArray(d)) {
+      for (let i = d.length - 1; i >= 0; i--) commands.push([indent, flat, d[i]]);
+    } else {
+      switch (d.kind) {
+        case "Line":
+          if (!flat || d.hard) return true;
+          width -= d.flat.length;
+          break;
+        case "Fresh":
+          return true;
+        case "LineSuffix":
+          break;
+        case "Nest":
+          commands.push([indent + d.indent, flat, d.doc]);
+          break;
+        case "IfBreak":
+          commands.push([indent, flat, flat ? d.flat : d.broken]);
+          break;
+        case "Group":
+          commands.push([indent, flat && !d.broken, d.doc]);
+          break;
+        case "Choice":
+          commands.push([indent, flat, flat ? d.options[0] : d.options[d.options.length - 1]]);
+          break;
+      }
+    }
+  }
+  return false;
+}
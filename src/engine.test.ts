@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { RillEngine, compile } from "./engine";
+import { prettyType } from "./types";
+import { Value, prettyPrint } from "./values";
+import { RillLimitError } from "./errors";
+
+const customers: Record<number, { name: string; vip: boolean }> = {
+  1: { name: "Ada", vip: true },
+  2: { name: "Bob", vip: false },
+};
+
+function lookup(id: number) {
+  const customer = customers[id];
+  if (!customer) throw new Error(`no customer ${id}`);
+  return customer;
+}
+
+describe("RillEngine", () => {
+  it("calls a defined host function with converted arguments", () => {
+    const engine = new RillEngine().define("add_tax", "(Int, Float) -> Float", (cents: number, rate: number) => cents * (1 + rate));
+    expect(prettyPrint(engine.run("add_tax(100, 0.5)"))).toBe("150");
+  });
+
+  it("type checks programs against the signature", () => {
+    const engine = new RillEngine().define("shout", "String -> String", (s: string) => s.toUpperCase());
+    expect(prettyPrint(engine.run('shout("hi")'))).toBe('"HI"');
+    expect(() => engine.run("shout(1)")).toThrow("String");
+  });
+
+  it("converts records and turns thrown errors into Err for Result signatures", () => {
+    const engine = new RillEngine().define("lookup_customer", "Int -> Result({ name: String, vip: Bool })", lookup);
+    expect(prettyPrint(engine.run("lookup_customer(1)? |> fn(c) -> c.name |> catch e -> e"))).toBe('"Ada"');
+    expect(prettyPrint(engine.run("lookup_customer(9)? |> fn(c) -> c.name |> catch e -> e"))).toBe('"no customer 9"');
+  });
+
+  it("converts lists and passes Rill functions to the host as JS functions", () => {
+    const engine = new RillEngine().define("apply_all", "(Int -> Int, List(Int)) -> List(Int)", (f: (n: number) => number, xs: number[]) => xs.map(f));
+    expect(prettyPrint(engine.run("apply_all(fn(x) -> x * 10, [1, 2])"))).toBe("[10, 20]");
+  });
+
+  it("passes values of polymorphic types through unchanged", () => {
+    const engine = new RillEngine().define("first_of", "List(a) -> a", (xs: Value[]) => xs[0]);
+    expect(prettyPrint(engine.run('first_of([Some("x")])'))).toBe('Some("x")');
+  });
+
+  it("rejects host results that don't match the return type", () => {
+    const engine = new RillEngine().define("count", "String -> Int", () => "three");
+    expect(() => engine.run('count("a")')).toThrow('count returned "three" where Int was expected');
+  });
+
+  it("rejects non-function signatures", () => {
+    expect(() => new RillEngine().define("rate", "Float", () => 0.5)).toThrow("must be a function type");
+  });
+
+  it("applies its execution budgets to every run", () => {
+    const engine = new RillEngine({ maxSteps: 100 });
+    expect(() => engine.run("let rec spin = fn(n) -> spin(n)\nspin(0)")).toThrow(RillLimitError);
+  });
+});
+
+describe("compile", () => {
+  const discount = `
+    let rate = match order.vip { true -> 0.2, false -> 0.0 }
+    order.total * rate
+  `;
+  const inputs = { order: "{ total: Float, vip: Bool }" };
+
+  it("exposes the inferred type of the rule", () => {
+    expect(prettyType(compile(discount, { inputs }).type)).toBe("Float");
+  });
+
+  it("runs one compiled rule against many inputs", () => {
+    const rule = compile(discount, { inputs });
+    expect(rule.runJson({ order: { total: 100, vip: true } })).toBe(20);
+    expect(rule.runJson({ order: { total: 100, vip: false } })).toBe(0);
+  });
+
+  it("runs against Rill values", () => {
+    const rule = compile("xs |> map(fn(x) -> x + 1)", { inputs: { xs: "List(Int)" } });
+    const value = rule.run({ xs: { kind: "List", elements: [{ kind: "Int", value: 1 }] } });
+    expect(prettyPrint(value)).toBe("[2]");
+  });
+
+  it("reports type errors at compile time", () => {
+    expect(() => compile("order.total ++ \"!\"", { inputs })).toThrow();
+    expect(() => compile("missing + 1")).toThrow("Undefined variable: missing");
+  });
+
+  it("checks inputs against their declared types", () => {
+    const rule = compile(discount, { inputs });
+    expect(() => rule.runJson({})).toThrow("Missing input: order");
+    expect(() => rule.runJson({ order: { total: 1, vip: "yes" } })).toThrow('Input order is "yes" where Bool was expected');
+  });
+
+  it("checks Rill value inputs against their declared types", () => {
+    const rule = compile("xs |> map(fn(x) -> x + 1)", { inputs: { xs: "List(Int)" } });
+    expect(() => rule.run({})).toThrow("Missing input: xs");
+    expect(() => rule.run({ xs: { kind: "List", elements: [{ kind: "String", value: "1" }] } }))
+      .toThrow('Input xs is "1" where Int was expected');
+    expect(() => rule.run({ xs: { kind: "Int", value: 1 } })).toThrow("Input xs is 1 where List(Int) was expected");
+  });
+
+  it("binds inputs to one type, not a type at each use", () => {
+    // An input declared as `a` can't be both an Int and a String
+    expect(() => compile('(x + 1, x ++ "!")', { inputs: { x: "a" } })).toThrow("Cannot unify");
+    // Its uses decide the type, which inputs are then checked against
+    const rule = compile("x + 1", { inputs: { x: "a" } });
+    expect(rule.runJson({ x: 41 })).toBe(42);
+    expect(() => rule.runJson({ x: "41" })).toThrow('Input x is "41" where Int was expected');
+  });
+
+  it("compiles against an engine's host functions", () => {
+    const engine = new RillEngine().define("double", "Int -> Int", (n: number) => n * 2);
+    const rule = engine.compile("double(n)", { inputs: { n: "Int" } });
+    expect(rule.runJson({ n: 21 })).toBe(42);
+  });
+});
@@ -0,0 +1,275 @@
+import { Program } from "./ast";
+import { lex } from "./lexer";
+import { parseProgram, parseType } from "./parser";
+import { applyFn, evaluateProgram, EvalOptions } from "./evaluator";
+import { InferContext, inferProgram, signatureScheme, TypeEnv } from "./typechecker";
+import { Type, prettyType } from "./types";
+import { applySubst } from "./unify";
+import { Json, Value, fromRill, prettyPrint } from "./values";
+import { createPrelude, createPreludeTypes } from "./prelude";
+
+export interface CompileOptions extends EvalOptions {
+  // Type signatures of the values every run provides, by name
+  inputs?: Record<string, string>;
+}
+
+// A type checked program that can be run many times against different inputs:
+//
+//   const rule = compile("order.total > 100.0", { inputs: { order: "{ total: Float }" } });
+//   rule.runJson({ order: { total: 250 } });   // => true
+export class CompiledRule {
+  constructor(
+    // The type of the program's final expression
+    readonly type: Type,
+    private ast: Program,
+    private inputs: Map<string, Type>,
+    private values: Map<string, Value>,
+    private options: EvalOptions,
+  ) {}
+
+  // Runs with Rill values as inputs, checked against their declared types
+  run(inputs: Record<string, Value> = {}): Value {
+    const values = new Map<string, Value>();
+    for (const [name, type] of this.inputs) {
+      const value = inputs[name];
+      if (value === undefined) throw new Error(`Missing input: ${name}`);
+      checkValue(value, type, `Input ${name} is`);
+      values.set(name, value);
+    }
+    return this.evaluate(values);
+  }
+
+  // Runs with plain JS inputs, converted and checked against their declared types
+  runJson(inputs: Record<string, Json> = {}): Json {
+    const values = new Map<string, Value>();
+    for (const [name, type] of this.inputs) {
+      if (!(name in inputs)) throw new Error(`Missing input: ${name}`);
+      values.set(name, toValue(inputs[name], type, `Input ${name} is`));
+    }
+    return fromRill(this.evaluate(values));
+  }
+
+  private evaluate(inputs: Map<string, Value>): Value {
+    const env = new Map(this.values);
+    for (const [name, value] of inputs) env.set(name, value);
+    return evaluateProgram(this.ast, env, this.options).value;
+  }
+}
+
+// Parses and type checks a program once, against the prelude and the declared inputs
+export function compile(source: string, options: CompileOptions = {}): CompiledRule {
+  return compileWith(source, createPreludeTypes(), createPrelude(), options);
+}
+
+function compileWith(source: string, types: TypeEnv, values: Map<string, Value>, options: CompileOptions): CompiledRule {
+  const { inputs = {}, ...evalOptions } = options;
+  const ast = parseProgram(lex(source));
+  const ctx = new InferContext(source);
+  const typeEnv = new Map(types);
+  const inputTypes = new Map<string, Type>();
+  for (const [name, signature] of Object.entries(inputs)) {
+    // An input is one value, so a type variable in its signature stands for a
+    // single type the rule's uses decide, not any type at each use
+    const { type } = signatureScheme(parseType(lex(signature)), new Map(), ctx);
+    typeEnv.set(name, { vars: [], type });
+    inputTypes.set(name, type);
+  }
+  const { type } = inferProgram(ast, typeEnv, ctx);
+  for (const [name, t] of inputTypes) inputTypes.set(name, applySubst(ctx.subst, t));
+  return new CompiledRule(type, ast, inputTypes, new Map(values), evalOptions);
+}
+
+// A prelude extended with host functions, for running rules inside a service:
+//
+//   const engine = new RillEngine({ maxSteps: 10_000 })
+//     .define("lookup_customer", "Int -> Result({ name: String, vip: Bool })", (id: number) => db.get(id));
+//   engine.run("lookup_customer(7)? |> fn(c) -> c.vip |> catch e -> false");
+export class RillEngine {
+  private types: TypeEnv = createPreludeTypes();
+  private values: Map<string, Value> = createPrelude();
+
+  constructor(private options: EvalOptions = {}) {}
+
+  // Registers a host function under `name`. Its arguments are converted from
+  // Rill values to JS according to the signature's parameter types, and its
+  // result back from JS, checked against the return type. For a Result return
+  // type, a thrown error becomes Err(message) and anything else Ok(result).
+  // `Args` are the JS types the implementation expects, which the conversion
+  // produces when they match the signature: numbers for Int and Float, arrays
+  // for lists and tuples, objects for records, functions for functions and
+  // Rill values for anything else.
+  define<Args extends unknown[]>(name: string, signature: string, impl: (...args: Args) => unknown): this {
+    const scheme = signatureScheme(parseType(lex(signature)));
+    const params: Type[] = [];
+    let ret = scheme.type;
+    while (ret.kind === "TFn") {
+      params.push(ret.param);
+      ret = ret.ret;
+    }
+    if (params.length === 0) throw new Error(`Signature of ${name} must be a function type, got ${signature}`);
+
+    const returnType = ret;
+    this.types.set(name, scheme);
+    this.values.set(name, {
+      kind: "BuiltinFn",
+      name,
+      arity: params.length,
+      applied: [],
+      fn: (args) => {
+        const jsArgs = args.map((arg, i) => toJs(arg, params[i])) as Args;
+        if (returnType.kind !== "TResult") return toValue(impl(...jsArgs), returnType, `${name} returned`);
+        let result: unknown;
+        try {
+          result = impl(...jsArgs);
+        } catch (e: any) {
+          return { kind: "Tag", tag: "Err", args: [{ kind: "String", value: String(e?.message ?? e) }] };
+        }
+        return { kind: "Tag", tag: "Ok", args: [toValue(result, returnType.ok, `${name} returned`)] };
+      },
+    });
+    return this;
+  }
+
+  // Type checks a program against the prelude and every function defined so far
+  compile(source: string, options: CompileOptions = {}): CompiledRule {
+    return compileWith(source, this.types, this.values, { ...this.options, ...options });
+  }
+
+  run(source: string): Value {
+    return this.compile(source).run();
+  }
+}
+
+// Converts a Rill value of type `type` to the JS value a host function receives.
+// Values of type variables, tags, data types and results are passed through unconverted.
+function toJs(v: Value, type: Type): unknown {
+  switch (type.kind) {
+    case "TCon":
+      return v.kind === "Int" || v.kind === "Float" || v.kind === "String" || v.kind === "Bool" ? v.value : undefined;
+    case "TList":
+    case "TTuple": {
+      if (v.kind !== "List" && v.kind !== "Tuple") return v;
+      return v.elements.map((el, i) => toJs(el, type.kind === "TList" ? type.element : type.elements[i]));
+    }
+    case "TRecord": {
+      if (v.kind !== "Record") return v;
+      const obj: Record<string, unknown> = {};
+      for (const [k, field] of v.fields) {
+        const fieldType = type.fields.get(k);
+        obj[k] = fieldType ? toJs(field, fieldType) : field;
+      }
+      return obj;
+    }
+    case "TFn":
+      // Extra JS arguments (like the index Array.map passes) are ignored
+      return (...args: unknown[]) => {
+        let result = v;
+        let t: Type = type;
+        for (const arg of args) {
+          if (t.kind !== "TFn") break;
+          result = applyFn(result, toValue(arg, t.param, "Argument"));
+          t = t.ret;
+        }
+        return toJs(result, t);
+      };
+    case "TVar":
+    case "TResult":
+    case "TTag":
+    case "TData":
+      return v;
+  }
+}
+
+// Converts a JS value from the host to a Rill value, checking it against `type`.
+// `subject` begins the error message, as in "lookup returned".
+function toValue(js: unknown, type: Type, subject: string): Value {
+  const mismatch = () => new Error(`${subject} ${JSON.stringify(js) ?? typeof js} where ${prettyType(type)} was expected`);
+  switch (type.kind) {
+    case "TCon":
+      switch (type.name) {
+        case "Int":
+          if (typeof js !== "number" || !Number.isInteger(js)) throw mismatch();
+          return { kind: "Int", value: js };
+        case "Float":
+          if (typeof js !== "number") throw mismatch();
+          return { kind: "Float", value: js };
+        case "String":
+          if (typeof js !== "string") throw mismatch();
+          return { kind: "String", value: js };
+        case "Bool":
+          if (typeof js !== "boolean") throw mismatch();
+          return { kind: "Bool", value: js };
+        case "Unit":
+          return { kind: "Unit" };
+      }
+      throw mismatch();
+    case "TList":
+      if (!Array.isArray(js)) throw mismatch();
+      return { kind: "List", elements: js.map((el) => toValue(el, type.element, subject)) };
+    case "TTuple":
+      if (!Array.isArray(js) || js.length !== type.elements.length) throw mismatch();
+      return { kind: "Tuple", elements: js.map((el, i) => toValue(el, type.elements[i], subject)) };
+    case "TRecord": {
+      if (typeof js !== "object" || js === null) throw mismatch();
+      const fields = new Map<string, Value>();
+      for (const [k, fieldType] of type.fields) {
+        if (!(k in js)) throw mismatch();
+        fields.set(k, toValue((js as Record<string, unknown>)[k], fieldType, subject));
+      }
+      return { kind: "Record", fields };
+    }
+    case "TResult":
+      return { kind: "Tag", tag: "Ok", args: [toValue(js, type.ok, subject)] };
+    case "TFn":
+      throw new Error(`Functions can't be passed from JS to Rill (expected ${prettyType(type)})`);
+    case "TVar":
+    case "TTag":
+    case "TData":
+      if (!isValue(js)) throw mismatch();
+      return js;
+  }
+}
+
+// Checks a Rill value given as an input against its declared type, as far as
+// the value shows it. `subject` begins the error message, as in toValue.
+function checkValue(v: Value, type: Type, subject: string): void {
+  const mismatch = () => new Error(`${subject} ${prettyPrint(v)} where ${prettyType(type)} was expected`);
+  switch (type.kind) {
+    case "TCon":
+      if (v.kind !== type.name) throw mismatch();
+      return;
+    case "TList":
+      if (v.kind !== "List") throw mismatch();
+      return v.elements.forEach((el) => checkValue(el, type.element, subject));
+    case "TTuple":
+      if (v.kind !== "Tuple" || v.elements.length !== type.elements.length) throw mismatch();
+      return v.elements.forEach((el, i) => checkValue(el, type.elements[i], subject));
+    case "TRecord":
+      if (v.kind !== "Record") throw mismatch();
+      for (const [k, fieldType] of type.fields) {
+        const field = v.fields.get(k);
+        if (!field) throw mismatch();
+        checkValue(field, fieldType, subject);
+      }
+      return;
+    case "TResult":
+      if (v.kind !== "Tag" || v.args.length !== 1) throw mismatch();
+      if (v.tag === "Ok") return checkValue(v.args[0], type.ok, subject);
+      // The type checker leaves what an Err carries open
+      if (v.tag === "Err") return;
+      throw mismatch();
+    case "TFn":
+      if (v.kind !== "Closure" && v.kind !== "BuiltinFn") throw mismatch();
+      return;
+    case "TTag":
+    case "TData":
+      if (v.kind !== "Tag") throw mismatch();
+      return;
+    case "TVar":
+      return;
+  }
+}
+
+function isValue(js: unknown): js is Value {
+  return typeof js === "object" && js !== null && typeof (js as { kind?: unknown }).kind === "string";
+}
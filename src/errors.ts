@@ -1,24 +1,163 @@
 import { Span, formatSpan } from "./span";
+import { Codes, Diagnostic, Label, renderDiagnostic } from "./diagnostics";
 
-export class RillError extends Error {
+// An error carrying the Diagnostic that describes it
+export class DiagnosticError extends Error {
+  constructor(
+    readonly diagnostic: Diagnostic,
+    message: string = diagnostic.message,
+  ) {
+    super(message);
+  }
+}
+
+// Secondary labels and notes attached to an error
+export interface ErrorDetails {
+  labels?: Label[];
+  notes?: string[];
+}
+
+// A type error, rendered against the source it was found in
+export class RillError extends DiagnosticError {
   constructor(
     public msg: string,
     public span: Span,
     public source: string,
+    code: string = Codes.TypeError,
+    details: ErrorDetails = {},
+  ) {
+    const diagnostic = errorDiagnostic(code, msg, span, details);
+    super(diagnostic, renderDiagnostic(diagnostic, source));
+  }
+}
+
+// Raised by the lexer and parser
+export class RillSyntaxError extends DiagnosticError {
+  constructor(
+    public msg: string,
+    public span: Span,
+    code: string = Codes.UnexpectedToken,
+  ) {
+    super(errorDiagnostic(code, msg, span), `${msg} at ${formatSpan(span)}`);
+  }
+}
+
+// Raised by the parser when it found several syntax errors, in source order
+export class RillSyntaxErrors extends Error {
+  constructor(readonly errors: RillSyntaxError[]) {
+    super(errors.map((e) => e.message).join("\n"));
+  }
+}
+
+export type Limit = "steps" | "timeout" | "memory";
+
+const LIMIT_CODES: Record<Limit, string> = {
+  steps: Codes.StepLimit,
+  timeout: Codes.Timeout,
+  memory: Codes.MemoryLimit,
+};
+
+// Raised when evaluation exceeds one of the budgets in EvalOptions
+export class RillLimitError extends DiagnosticError {
+  constructor(
+    public limit: Limit,
+    public msg: string,
+    public span: Span,
+  ) {
+    super(errorDiagnostic(LIMIT_CODES[limit], msg, span), `${msg} at ${formatSpan(span)}`);
+  }
+}
+
+// A call a runtime error escaped from: the function's name and, when it was
+// called from Rill code rather than a builtin, the span of the call
+export interface StackFrame {
+  name: string;
+  span: Span | null;
+}
+
+// Frames beyond this many are summarized in the rendered stack
+const MAX_RENDERED_FRAMES = 20;
+
+// Raised by the evaluator. `trace` lists the calls the error escaped, innermost
+// first; calls made in tail position replace their caller's frame.
+export class RillRuntimeError extends DiagnosticError {
+  readonly trace: StackFrame[] = [];
+
+  constructor(
+    public msg: string,
+    public span: Span,
+    code: string = Codes.RuntimeError,
+  ) {
+    super(errorDiagnostic(code, msg, span), `${msg} at ${formatSpan(span)}`);
+  }
+
+  addFrame(frame: StackFrame): void {
+    this.trace.push(frame);
+    const { notes } = this.diagnostic;
+    if (this.trace.length <= MAX_RENDERED_FRAMES) {
+      notes.push(frame.span ? `in ${frame.name}, called at ${formatSpan(frame.span)}` : `in ${frame.name}`);
+    } else {
+      notes[MAX_RENDERED_FRAMES] = `... and ${this.trace.length - MAX_RENDERED_FRAMES} more calls`;
+    }
+  }
+}
+
+// Thrown by the assertion builtins, which don't know where they were called
+// from; the evaluator raises it as a RillAssertionError at the call
+export class AssertionFailure extends Error {
+  constructor(
+    message: string,
+    readonly expected: string | null,
+    readonly actual: string,
   ) {
-    super(formatError(msg, span, source));
+    super(message);
   }
 }
 
-export function formatError(msg: string, span: Span, source: string): string {
-  const lines = source.split("\n");
-  const line = lines[span.start.line - 1] || "";
-  const pointer = " ".repeat(span.start.col - 1) + "^".repeat(Math.max(1, span.end.col - span.start.col));
+// Thrown by a builtin about to allocate more than the memory budget allows;
+// the evaluator raises it as a RillLimitError at the call
+export class AllocationFailure extends Error {}
+
+// A failed assertion, with the printed values it compared: `expected` is null
+// when the assertion had no single expected value
+export class RillAssertionError extends RillRuntimeError {
+  constructor(
+    msg: string,
+    span: Span,
+    readonly expected: string | null,
+    readonly actual: string,
+  ) {
+    super(msg, span, Codes.AssertionFailed);
+  }
+}
+
+// Raised by the module loader, wrapping the errors in an imported file
+export class RillModuleError extends DiagnosticError {
+  constructor(
+    readonly diagnostics: Diagnostic[],
+    message: string,
+    // The budget that stopped the module's declarations, when one did
+    readonly limit?: Limit,
+  ) {
+    super(diagnostics[0], message);
+  }
+}
+
+// The diagnostic for any error thrown while running a program
+export function toDiagnostic(e: unknown): Diagnostic {
+  if (e instanceof DiagnosticError) return e.diagnostic;
+  const message = e instanceof Error ? e.message : String(e);
+  const code = e instanceof TypeError ? Codes.TypeError : Codes.RuntimeError;
+  return { code, severity: "error", message, span: null, labels: [], notes: [] };
+}
+
+// Every diagnostic an error carries: one for most errors, several for a run of syntax errors
+export function toDiagnostics(e: unknown): Diagnostic[] {
+  if (e instanceof RillSyntaxErrors) return e.errors.map((error) => error.diagnostic);
+  if (e instanceof RillModuleError) return e.diagnostics;
+  return [toDiagnostic(e)];
+}
 
-  return [
-    `Error at ${formatSpan(span)}:`,
-    `  ${line}`,
-    `  ${pointer}`,
-    `  ${msg}`,
-  ].join("\n");
+function errorDiagnostic(code: string, message: string, span: Span, details: ErrorDetails = {}): Diagnostic {
+  return { code, severity: "error", message, span, labels: details.labels ?? [], notes: details.notes ?? [] };
 }
@@ -1,8 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { evaluate } from "./evaluator";
-import { parse } from "./parser";
+import { evaluate, evaluateProgram, EvalOptions, PipeEvent } from "./evaluator";
+import { parse, parseProgram } from "./parser";
 import { lex } from "./lexer";
 import { prettyPrint, Value } from "./values";
+import { RillLimitError, RillRuntimeError } from "./errors";
+import { createPrelude } from "./prelude";
 
 function run(source: string): Value {
   return evaluate(parse(lex(source)));
@@ -44,6 +46,15 @@ describe("Evaluator", () => {
 
   describe("strings", () => {
     it("concatenates", () => expect(runPrint('"hello" ++ " world"')).toBe('"hello world"'));
+    it("interpolates values", () => {
+      expect(runPrint('let user = { name: "Al" } in "Hi ${user.name}, ${1 + 2} items"')).toBe('"Hi Al, 3 items"');
+    });
+    it("writes a literal ${ escaped as \\${", () => {
+      expect(runPrint('let x = 1 in "\\${x} is ${x}"')).toBe('"${x} is 1"');
+    });
+    it("renders holes like to_string", () => {
+      expect(runPrint('"${[1, 2]} ${Ok("x")} ${2.5} ${true}"')).toBe('"[1, 2] Ok("x") 2.5 true"');
+    });
   });
 
   describe("let bindings", () => {
@@ -72,6 +83,42 @@ describe("Evaluator", () => {
         in factorial(5)
       `)).toBe("120");
     });
+
+    it("ties the knot for mutually recursive functions", () => {
+      expect(runPrint(`
+        let rec is_even = fn(n) -> match n { 0 -> true, _ -> is_odd(n - 1) }
+        and is_odd = fn(n) -> match n { 0 -> false, _ -> is_even(n - 1) }
+        in (is_even(10), is_odd(7), is_even(3))
+      `)).toBe("(true, true, false)");
+    });
+  });
+
+  describe("tail calls", () => {
+    it("runs a 1,000,000-iteration let rec loop in constant stack", () => {
+      expect(runPrint(`
+        let rec loop = fn(n, acc) -> match n { 0 -> acc, _ -> loop(n - 1, acc + 1) }
+        in loop(1000000, 0)
+      `)).toBe("1000000");
+    });
+
+    it("eliminates tail calls between mutually recursive functions", () => {
+      expect(runPrint(`
+        let rec is_even = fn(n) -> match n { 0 -> true, _ -> is_odd(n - 1) }
+        and is_odd = fn(n) -> match n { 0 -> false, _ -> is_even(n - 1) }
+        in is_even(100001)
+      `)).toBe("false");
+    });
+
+    it("treats let bodies and pipe ends as tail positions", () => {
+      expect(runPrint(`
+        let rec count = fn(n) ->
+          match n == 0 {
+            true -> "done",
+            false -> let next = n - 1 in next |> count
+          }
+        in count(200000)
+      `)).toBe('"done"');
+    });
   });
 
   describe("pipes", () => {
@@ -171,4 +218,236 @@ describe("Evaluator", () => {
       expect(runPrint("None")).toBe("None");
     });
   });
+
+  describe("programs", () => {
+    it("evaluates declarations in order", () => {
+      const result = evaluateProgram(parseProgram(lex("let x = 2\nlet rec f = fn(n) -> match n { 0 -> x, _ -> f(n - 1) }\nf(3)")), new Map());
+      expect(prettyPrint(result.value)).toBe("2");
+      expect(result.env.has("f")).toBe(true);
+    });
+
+    it("returns Unit without a final expression", () => {
+      const result = evaluateProgram(parseProgram(lex("let x = 1")), new Map());
+      expect(prettyPrint(result.value)).toBe("()");
+      expect(prettyPrint(result.env.get("x")!)).toBe("1");
+    });
+  });
+
+  describe("execution budgets", () => {
+    const loop = "let rec loop = fn(n) -> loop(n + 1) in loop(0)";
+
+    function limitOf(source: string, options: EvalOptions): RillLimitError {
+      try {
+        evaluate(parse(lex(source)), new Map(), options);
+      } catch (e) {
+        if (e instanceof RillLimitError) return e;
+        throw e;
+      }
+      throw new Error("expected a limit to fire");
+    }
+
+    it("stops after the maximum number of steps", () => {
+      const e = limitOf(loop, { maxSteps: 1000 });
+      expect(e.limit).toBe("steps");
+      expect(e.message).toContain("Step limit of 1000 exceeded");
+      expect(e.span.start.line).toBe(1);
+    });
+
+    it("stops at the wall-clock deadline", () => {
+      expect(limitOf(loop, { timeoutMs: 20 }).limit).toBe("timeout");
+    });
+
+    it("stops a string that grows past the allocation limit", () => {
+      const source = 'let rec grow = fn(s) -> grow(s ++ s) in grow("ab")';
+      const e = limitOf(source, { maxAllocation: 1000 });
+      expect(e.limit).toBe("memory");
+      expect(e.message).toContain("1024 characters");
+      expect(e.span.start.col).toBe(30);
+    });
+
+    it("stops builtins before they allocate past the limit", () => {
+      const limitIn = (source: string) => {
+        try {
+          evaluate(parse(lex(source)), createPrelude(), { maxAllocation: 1000 });
+        } catch (e) {
+          if (e instanceof RillLimitError) return e;
+          throw e;
+        }
+        throw new Error("expected a limit to fire");
+      };
+      // Building a billion elements first would exhaust memory
+      const e = limitIn("[1, 2] |> append(range(0, 1000000000))");
+      expect(e.limit).toBe("memory");
+      expect(e.message).toContain("Allocation of 1000000000 elements exceeds the limit of 1000");
+      expect(e.span.start.col).toBe(18);
+      expect(limitIn('repeat(1000000000, "ab")').message).toContain("2000000000 characters");
+      expect(limitIn('pad_left(5000, " ", "x")').limit).toBe("memory");
+      expect(limitIn('repeat(600, "a") |> replace("a", "aa")').message).toContain("1200 characters");
+      expect(limitIn("range(0, 600) |> append(range(0, 600))").message).toContain("1200 elements");
+      // Stops at the second chunk rather than after building a million elements
+      expect(limitIn("range(0, 1000) |> flat_map(fn(i) -> range(0, 1000))").message).toContain("2000 elements");
+    });
+
+    it("is not caught by catch", () => {
+      const source = `(${loop}) |> catch e -> 0`;
+      expect(limitOf(source, { maxSteps: 100 }).limit).toBe("steps");
+    });
+
+    it("runs within budget unchanged", () => {
+      const value = evaluate(parse(lex("[1, 2, 3]")), new Map(), { maxSteps: 100, maxAllocation: 3 });
+      expect(prettyPrint(value)).toBe("[1, 2, 3]");
+    });
+  });
+
+  describe("step hook", () => {
+    // The depth at each step, by the kind of expression evaluated
+    function steps(source: string, env = new Map<string, Value>()): string[] {
+      const seen: string[] = [];
+      evaluate(parse(lex(source)), env, { onStep: { step: (expr, _env, depth) => seen.push(`${expr.kind}@${depth}`) } });
+      return seen;
+    }
+
+    it("sees every expression with the calls in progress", () => {
+      expect(steps("let f = fn(x) -> x + 1 in f(2)")).toEqual([
+        "Let@0", "Fn@0", "Call@0", "Ident@0", "IntLit@0", "BinOp@1", "Ident@1", "IntLit@1",
+      ]);
+    });
+
+    it("counts tail calls and calls made by builtins", () => {
+      const loop = steps("let rec down = fn(n) -> match n == 0 { true -> 0, false -> down(n - 1) } in down(2)");
+      expect(Math.max(...loop.map((s) => Number(s.split("@")[1])))).toBe(3);
+      expect(steps("map(fn(x) -> x, [1])", createPrelude())).toContain("Ident@1");
+    });
+
+    it("leaves the depth at zero after an error", () => {
+      expect(() => evaluate(parse(lex("let f = fn(x) -> x + true in f(1)")))).toThrow();
+      expect(steps("1")).toEqual(["IntLit@0"]);
+    });
+  });
+
+  describe("pipe tracing", () => {
+    // Each stage as its input and output, in the order the stages finished
+    function trace(source: string): string[] {
+      const seen: string[] = [];
+      const value = evaluate(parse(lex(source)), createPrelude(), {
+        onPipe: (e) => seen.push(`${prettyPrint(e.input)} -> ${prettyPrint(e.output)}`),
+      });
+      return [...seen, prettyPrint(value)];
+    }
+
+    it("reports each stage of a pipeline in order", () => {
+      expect(trace("[1, 2, 3] |> map(fn(x) -> x * 2) |> length")).toEqual(["[1, 2, 3] -> [2, 4, 6]", "[2, 4, 6] -> 3", "3"]);
+    });
+
+    it("reports the Result of a `?` stage and the Err a catch recovers from", () => {
+      expect(trace("[] |> head? |> fn(x) -> x + 1 |> catch e -> 0")).toEqual([
+        '[] -> Err("empty list")',
+        'Err("empty list") -> 0',
+        "0",
+      ]);
+      expect(trace("[5] |> head? |> catch e -> 0")).toEqual(["[5] -> Ok(5)", "5 -> 5", "5"]);
+    });
+
+    it("gives the pipe's span and the stage's", () => {
+      const events: PipeEvent[] = [];
+      evaluate(parse(lex("1 |> to_string")), createPrelude(), { onPipe: (e) => events.push(e) });
+      expect(events[0].span.start.col).toBe(1);
+      expect(events[0].stage.start.col).toBe(6);
+    });
+
+    it("evaluates the same as without tracing", () => {
+      const source = "let rec count = fn(n) -> match n == 0 { true -> Err(\"done\"), false -> n - 1 |> count } in (count(3) |> catch e -> e)";
+      expect(trace(source).at(-1)).toBe(runPrint(source));
+    });
+  });
+
+  describe("call hook", () => {
+    // Each call as its function's name, indented by the calls around it
+    function calls(source: string): string[] {
+      const seen: string[] = [];
+      let depth = 0;
+      const onCall = {
+        enter: (fn: Value) => seen.push("  ".repeat(depth++) + (fn.kind === "Closure" ? fn.name ?? "<fn>" : prettyPrint(fn))),
+        exit: () => depth--,
+      };
+      try {
+        evaluateProgram(parseProgram(lex(source)), createPrelude(), { onCall });
+      } finally {
+        expect(depth).toBe(0);
+      }
+      return seen;
+    }
+
+    it("enters a curried function once all its arguments are applied", () => {
+      expect(calls("let add = fn(a, b) -> a + b\nadd(1, 2)")).toEqual(["add"]);
+      expect(calls("let add = fn(a, b) -> a + b\nfold(0, add, [1, 2])")).toEqual(["<builtin:fold>", "  add", "  add"]);
+    });
+
+    it("ends tail calls when the call they replaced returns", () => {
+      const source = "let rec down = fn(n) -> match n == 0 { true -> 0, false -> down(n - 1) }\ndown(2)";
+      expect(calls(source)).toEqual(["down", "  down", "    down"]);
+    });
+
+    it("ends calls an error escapes", () => {
+      expect(() => calls("let f = fn(x) -> x / [1] |> head\nmap(f, [1])")).toThrow();
+    });
+  });
+
+  describe("runtime errors", () => {
+    function errorOf(source: string): RillRuntimeError {
+      try {
+        evaluateProgram(parseProgram(lex(source)), createPrelude());
+      } catch (e) {
+        if (e instanceof RillRuntimeError) return e;
+        throw e;
+      }
+      throw new Error("expected a runtime error");
+    }
+
+    const classify = 'let classify = fn(n) -> match n {\n  1 -> "one"\n}\n';
+
+    it("points at the failing expression", () => {
+      const e = errorOf(classify + "classify(2)");
+      expect(e.message).toBe("No matching pattern at line 1, col 25");
+      expect(e.span.end.line).toBe(3);
+      expect(e.diagnostic.code).toBe("E0301");
+    });
+
+    it("records the calls the error escaped, named by their let bindings", () => {
+      const e = errorOf(classify + 'let describe = fn(n) -> "number " ++ classify(n)\nlet all = fn(xs) -> map(describe, xs)\nall([1, 2])');
+      expect(e.trace.map((f) => f.name)).toEqual(["classify", "describe", "all"]);
+      expect(e.trace[0].span?.start).toMatchObject({ line: 4, col: 38 });
+      // describe is called by map, not from Rill code
+      expect(e.trace[1].span).toBeNull();
+      expect(e.diagnostic.notes).toEqual([
+        "in classify, called at line 4, col 38",
+        "in describe",
+        "in all, called at line 6, col 1",
+      ]);
+    });
+
+    it("names the inner functions of a curried definition after it", () => {
+      const e = errorOf(classify + "let pick = fn(a, b) -> classify(a + b) ++ \"!\"\npick(1, 2)");
+      expect(e.trace.map((f) => f.name)).toEqual(["classify", "pick"]);
+    });
+
+    it("keeps only the latest of a chain of tail calls", () => {
+      const e = errorOf(classify + "let rec down = fn(n) -> match n { 0 -> classify(5), _ -> down(n - 1) }\ndown(100)");
+      expect(e.trace.map((f) => f.name)).toEqual(["classify"]);
+    });
+
+    it("gives errors raised by builtins the span of the call", () => {
+      const e = errorOf("let f = fn(x) -> length(x)\nf(5)");
+      expect(e.message).toBe("length expects List or String at line 1, col 18");
+      expect(e.trace.map((f) => f.name)).toEqual(["f"]);
+    });
+
+    it("summarizes deep stacks", () => {
+      const e = errorOf(classify + "let rec deep = fn(n) -> match n { 0 -> classify(5), _ -> deep(n - 1) ++ \"\" }\ndeep(50)");
+      // deep(0) tail-calls classify, so 50 frames of deep remain
+      expect(e.trace).toHaveLength(51);
+      expect(e.diagnostic.notes).toHaveLength(21);
+      expect(e.diagnostic.notes[20]).toBe("... and 31 more calls");
+    });
+  });
 });
@@ -1,198 +1,529 @@
-import { Expr } from "./ast";
-import { Value } from "./values";
+import { Binding, Catch, Expr, MatchCase, Pipe, Program, TestDecl } from "./ast";
+import { Value, displayString } from "./values";
+import { AllocationFailure, AssertionFailure, DiagnosticError, RillAssertionError, RillLimitError, RillRuntimeError } from "./errors";
+import { Span } from "./span";
 
 class EarlyReturn {
   constructor(public value: Value) {}
 }
 
-export function evaluate(expr: Expr, env: Map<string, Value> = new Map()): Value {
+// Budgets for running untrusted code; evaluation that exceeds one throws RillLimitError
+export interface EvalOptions {
+  // Maximum number of expressions evaluated
+  maxSteps?: number;
+  // Wall-clock time limit in milliseconds
+  timeoutMs?: number;
+  // Largest list (in elements) or string (in characters) a single operation may build
+  maxAllocation?: number;
+  // Watches every step of evaluation, as the debugger does
+  onStep?: StepHook;
+  // Called as each `|>` stage finishes. Traced pipes aren't tail calls, so a
+  // loop recursing through a pipe uses stack while tracing.
+  onPipe?: (event: PipeEvent) => void;
+  // Told as each function call starts and ends, as the profiler is
+  onCall?: CallHook;
+  // A budget from `startBudget` to draw on instead of starting a fresh one
+  // from the limits above, so that several evaluations share it
+  budget?: Budget | null;
+}
+
+// One `|>` stage: the value piped in and what the stage made of it. For a
+// `|> catch` stage, the input is the Err that was caught, if one was.
+export interface PipeEvent {
+  // The whole pipe, and the stage to the right of the `|>`
+  span: Span;
+  stage: Span;
+  input: Value;
+  output: Value;
+}
+
+export interface StepHook {
+  // Called before each expression is evaluated, with the number of Rill
+  // function calls in progress; a tail call counts as a call
+  step(expr: Expr, env: Map<string, Value>, depth: number): void;
+}
+
+// A curried function is called once all its arguments are applied. A tail
+// call ends when the call it replaced returns.
+export interface CallHook {
+  // `fn` is the closure or builtin called
+  enter(fn: Value): void;
+  exit(): void;
+}
+
+export interface Budget {
+  options: EvalOptions;
+  steps: number;
+  deadline: number;
+}
+
+// The budget of the evaluation in progress, or null when it is unlimited
+let _budget: Budget | null = null;
+let _hook: StepHook | null = null;
+let _onPipe: ((event: PipeEvent) => void) | null = null;
+let _onCall: CallHook | null = null;
+// Rill function calls in progress
+let _depth = 0;
+
+function newBudget(options: EvalOptions): Budget | null {
+  const { maxSteps, timeoutMs, maxAllocation } = options;
+  if (maxSteps === undefined && timeoutMs === undefined && maxAllocation === undefined) return null;
+  return { options, steps: 0, deadline: timeoutMs === undefined ? Infinity : Date.now() + timeoutMs };
+}
+
+// The options with one budget started from their limits, for a run made of
+// several evaluations (its imported modules, then the main program) that
+// must stay within those limits together
+export function startBudget(options: EvalOptions): EvalOptions {
+  return { ...options, budget: newBudget(options) };
+}
+
+function withBudget<T>(options: EvalOptions, run: () => T): T {
+  const saved = [_budget, _hook, _onPipe, _onCall] as const;
+  _budget = options.budget !== undefined ? options.budget : newBudget(options);
+  _hook = options.onStep ?? null;
+  _onPipe = options.onPipe ?? null;
+  _onCall = options.onCall ?? null;
   try {
-    return evalExpr(expr, env);
-  } catch (e) {
-    if (e instanceof EarlyReturn) return e.value;
-    throw e;
+    return run();
+  } finally {
+    [_budget, _hook, _onPipe, _onCall] = saved;
   }
 }
 
-function evalExpr(expr: Expr, env: Map<string, Value>): Value {
-  switch (expr.kind) {
-    case "IntLit":
-      return { kind: "Int", value: expr.value };
-    case "FloatLit":
-      return { kind: "Float", value: expr.value };
-    case "StringLit":
-      return { kind: "String", value: expr.value };
-    case "BoolLit":
-      return { kind: "Bool", value: expr.value };
-    case "UnitLit":
-      return { kind: "Unit" };
-
-    case "Ident": {
-      const val = env.get(expr.name);
-      if (val === undefined) throw new Error(`Undefined variable: ${expr.name}`);
-      return val;
-    }
+// Counts one evaluation step, checking the clock every 1024 steps
+function tick(budget: Budget, span: Span): void {
+  const { maxSteps, timeoutMs } = budget.options;
+  budget.steps++;
+  if (maxSteps !== undefined && budget.steps > maxSteps) {
+    throw new RillLimitError("steps", `Step limit of ${maxSteps} exceeded`, span);
+  }
+  if (budget.steps % 1024 === 0 && Date.now() > budget.deadline) {
+    throw new RillLimitError("timeout", `Time limit of ${timeoutMs}ms exceeded`, span);
+  }
+}
 
-    case "BinOp": {
-      const left = evalExpr(expr.left, env);
-      const right = evalExpr(expr.right, env);
-      return evalBinOp(expr.op, left, right);
-    }
+function checkAllocation(value: Value, span: Span): Value {
+  const max = _budget?.options.maxAllocation;
+  if (max === undefined) return value;
+  const size = value.kind === "String" ? value.value.length : value.kind === "List" ? value.elements.length : 0;
+  if (size > max) {
+    const unit = value.kind === "String" ? "characters" : "elements";
+    throw new RillLimitError("memory", allocationMessage(size, unit, max), span);
+  }
+  return value;
+}
 
-    case "UnaryOp": {
-      const operand = evalExpr(expr.expr, env);
-      return evalUnaryOp(expr.op, operand);
-    }
+// Checks the size of a list or string a builtin is about to build against the
+// memory budget, so that it fails before allocating rather than after
+export function reserve(size: number, unit: "elements" | "characters"): void {
+  const max = _budget?.options.maxAllocation;
+  if (max !== undefined && size > max) throw new AllocationFailure(allocationMessage(size, unit, max));
+}
 
-    case "Let": {
-      const value = evalExpr(expr.value, env);
-      const newEnv = new Map(env);
-      if (expr.rec && value.kind === "Closure") {
-        const recEnv = new Map(value.env);
-        recEnv.set(expr.name, value);
-        value.env = recEnv;
-      }
-      newEnv.set(expr.name, value);
-      return evalExpr(expr.body, newEnv);
+function allocationMessage(size: number, unit: string, max: number): string {
+  return `Allocation of ${size} ${unit} exceeds the limit of ${max}`;
+}
+
+export function evaluate(expr: Expr, env: Map<string, Value> = new Map(), options: EvalOptions = {}): Value {
+  return withBudget(options, () => {
+    try {
+      return evalExpr(expr, env);
+    } catch (e) {
+      if (e instanceof EarlyReturn) return e.value;
+      throw e;
     }
+  });
+}
 
-    case "Fn":
-      return { kind: "Closure", param: expr.param, body: expr.body, env: new Map(env) };
+export interface ProgramResult {
+  // The initial environment extended with every top-level declaration
+  env: Map<string, Value>;
+  // The value of the final expression, or Unit when there is none
+  value: Value;
+  // The tests declared, each with the bindings before it; they aren't run
+  tests: { decl: TestDecl; env: Map<string, Value> }[];
+}
 
-    case "Call": {
-      const fn = evalExpr(expr.fn, env);
-      const arg = evalExpr(expr.arg, env);
-      return applyFn(fn, arg);
-    }
+// Runs a program's declarations in order, then its final expression.
+// A `?` that short-circuits at the top level ends the program with its Err.
+export function evaluateProgram(program: Program, env: Map<string, Value> = new Map(), options: EvalOptions = {}): ProgramResult {
+  return withBudget(options, () => runProgram(program, env));
+}
 
-    case "Match": {
-      const subject = evalExpr(expr.subject, env);
-      for (const c of expr.cases) {
-        const bindings = matchPattern(c.pattern, subject);
-        if (bindings !== null) {
-          const matchEnv = new Map(env);
-          for (const [k, v] of bindings) matchEnv.set(k, v);
-          return evalExpr(c.body, matchEnv);
+function runProgram(program: Program, env: Map<string, Value>): ProgramResult {
+  const scope = new Map(env);
+  const tests: ProgramResult["tests"] = [];
+  try {
+    for (const decl of program.decls) {
+      switch (decl.kind) {
+        case "LetDecl":
+          scope.set(decl.name, named(evalExpr(decl.value, scope), decl.name));
+          break;
+        case "LetRecDecl":
+          for (const [name, value] of bindGroup(decl.bindings, scope)) scope.set(name, value);
+          break;
+        case "TypeDef":
+          break;
+        case "ImportDecl": {
+          const module = scope.get(decl.path);
+          if (module === undefined) throw new RillRuntimeError(`Module not loaded: ${decl.path}`, decl.span);
+          scope.set(decl.name, module);
+          break;
         }
+        case "TestDecl":
+          tests.push({ decl, env: new Map(scope) });
+          break;
       }
-      throw new Error("No matching pattern");
     }
+    const value: Value = program.body ? evalExpr(program.body, scope) : { kind: "Unit" };
+    return { env: scope, value, tests };
+  } catch (e) {
+    if (e instanceof EarlyReturn) return { env: scope, value: e.value, tests };
+    throw e;
+  }
+}
 
-    case "Try": {
-      const val = evalExpr(expr.expr, env);
-      if (val.kind === "Tag" && val.tag === "Ok" && val.args.length === 1) {
-        return val.args[0];
-      }
-      if (val.kind === "Tag" && val.tag === "Err") {
-        throw new EarlyReturn(val);
-      }
-      throw new Error("? operator requires Ok(...) or Err(...)");
-    }
+// Every closure in a recursive group sees the whole group in its environment
+function bindGroup(bindings: Binding[], env: Map<string, Value>): [string, Value][] {
+  const values = bindings.map((b): [string, Value] => [b.name, named(evalExpr(b.value, env), b.name)]);
+  for (const [, value] of values) {
+    if (value.kind !== "Closure") continue;
+    const recEnv = new Map(value.env);
+    for (const [name, member] of values) recEnv.set(name, member);
+    value.env = recEnv;
+  }
+  return values;
+}
 
-    case "Catch": {
-      try {
-        const val = evalExpr(expr.expr, env);
-        if (val.kind === "Tag" && val.tag === "Ok" && val.args.length === 1) {
-          return val.args[0];
+// Closures take the name of the let that binds them, for stack traces
+function named(value: Value, name: string): Value {
+  if (value.kind === "Closure" && value.name === undefined) value.name = name;
+  return value;
+}
+
+// Calls, and the branches and bodies that end an expression, are in tail
+// position: instead of recursing they replace `expr` and `env` and go around
+// the loop again, so tail-recursive Rill loops run in constant JS stack.
+function evalExpr(expr: Expr, env: Map<string, Value>): Value {
+  // The closure this call of evalExpr has tail-called into, and where from
+  let callee: Closure | null = null;
+  let callSite: Span | null = null;
+  // Calls entered by this loop, tail calls included, and how many of them
+  // the call hook was told of
+  let calls = 0;
+  let entered = 0;
+  try {
+    for (;;) {
+      if (_budget) tick(_budget, expr.span);
+      if (_hook) _hook.step(expr, env, _depth);
+      switch (expr.kind) {
+        case "IntLit":
+          return { kind: "Int", value: expr.value };
+        case "FloatLit":
+          return { kind: "Float", value: expr.value };
+        case "StringLit":
+          return { kind: "String", value: expr.value };
+        case "StringInterp": {
+          let value = expr.parts[0];
+          for (let i = 0; i < expr.exprs.length; i++) {
+            value += displayString(evalExpr(expr.exprs[i], env)) + expr.parts[i + 1];
+          }
+          return checkAllocation({ kind: "String", value }, expr.span);
+        }
+        case "BoolLit":
+          return { kind: "Bool", value: expr.value };
+        case "UnitLit":
+          return { kind: "Unit" };
+
+        case "Ident": {
+          const val = env.get(expr.name);
+          if (val === undefined) throw new RillRuntimeError(`Undefined variable: ${expr.name}`, expr.span);
+          return val;
+        }
+
+        case "BinOp": {
+          const left = evalExpr(expr.left, env);
+          const right = evalExpr(expr.right, env);
+          return checkAllocation(evalBinOp(expr.op, left, right), expr.span);
+        }
+
+        case "UnaryOp": {
+          const operand = evalExpr(expr.expr, env);
+          return evalUnaryOp(expr.op, operand);
+        }
+
+        case "Let": {
+          const value = evalExpr(expr.value, env);
+          env = new Map(env);
+          env.set(expr.name, named(value, expr.name));
+          expr = expr.body;
+          continue;
+        }
+
+        case "LetRec": {
+          const newEnv = new Map(env);
+          for (const [name, value] of bindGroup(expr.bindings, env)) newEnv.set(name, value);
+          env = newEnv;
+          expr = expr.body;
+          continue;
         }
-        if (val.kind === "Tag" && val.tag === "Err" && val.args.length >= 1) {
-          const catchEnv = new Map(env);
-          catchEnv.set(expr.errorName, val.args[0]);
-          return evalExpr(expr.fallback, catchEnv);
+
+        case "Fn":
+          // The inner functions of a curried definition share its name
+          const name = callee?.body === expr ? callee.name : undefined;
+          return { kind: "Closure", param: expr.param, body: expr.body, env: new Map(env), name };
+
+        case "Call": {
+          const fn = evalExpr(expr.fn, env);
+          const arg = evalExpr(expr.arg, env);
+          if (fn.kind !== "Closure") return checkAllocation(applyFn(fn, arg), expr.span);
+          callee = fn;
+          callSite = expr.span;
+          calls++;
+          _depth++;
+          if (enterClosure(fn)) entered++;
+          env = closureEnv(fn, arg);
+          expr = fn.body;
+          continue;
         }
-        return val;
-      } catch (e) {
-        if (e instanceof EarlyReturn) {
-          if (e.value.kind === "Tag" && e.value.tag === "Err" && e.value.args.length >= 1) {
-            const catchEnv = new Map(env);
-            catchEnv.set(expr.errorName, e.value.args[0]);
-            return evalExpr(expr.fallback, catchEnv);
+
+        case "Match": {
+          const subject = evalExpr(expr.subject, env);
+          let matched: MatchCase | undefined;
+          for (const c of expr.cases) {
+            const bindings = matchPattern(c.pattern, subject);
+            if (bindings !== null) {
+              matched = c;
+              env = new Map(env);
+              for (const [k, v] of bindings) env.set(k, v);
+              break;
+            }
           }
-          return e.value;
+          if (!matched) throw new RillRuntimeError("No matching pattern", expr.span);
+          expr = matched.body;
+          continue;
         }
-        throw e;
-      }
-    }
 
-    case "Pipe": {
-      // Special handling: if right side is a Catch, fill in the left as expr
-      if (expr.right.kind === "Catch") {
-        const catchExpr: import("./ast").Catch = {
-          ...expr.right,
-          expr: expr.left,
-        };
-        return evalExpr(catchExpr, env);
-      }
-      // Special handling: if right side is Try, apply inner fn first then try
-      if (expr.right.kind === "Try") {
-        const left = evalExpr(expr.left, env);
-        const fn = evalExpr(expr.right.expr, env);
-        const result = applyFn(fn, left);
-        if (result.kind === "Tag" && result.tag === "Ok" && result.args.length === 1) {
-          return result.args[0];
+        case "Try":
+          return unwrapOk(evalExpr(expr.expr, env), expr.span);
+
+        case "Catch": {
+          try {
+            return recover(expr, evalExpr(expr.expr, env), env);
+          } catch (e) {
+            if (e instanceof EarlyReturn) return recover(expr, e.value, env);
+            throw e;
+          }
         }
-        if (result.kind === "Tag" && result.tag === "Err") {
-          throw new EarlyReturn(result);
+
+        case "Pipe": {
+          if (_onPipe) return evalTracedPipe(expr, env, _onPipe);
+          // Special handling: if right side is a Catch, fill in the left as expr
+          if (expr.right.kind === "Catch") {
+            const catchExpr: import("./ast").Catch = {
+              ...expr.right,
+              expr: expr.left,
+            };
+            expr = catchExpr;
+            continue;
+          }
+          // Special handling: if right side is Try, apply inner fn first then try
+          if (expr.right.kind === "Try") {
+            const left = evalExpr(expr.left, env);
+            const fn = evalExpr(expr.right.expr, env);
+            return unwrapOk(checkAllocation(applyFn(fn, left, expr.span), expr.span), expr.span);
+          }
+          const left = evalExpr(expr.left, env);
+          const right = evalExpr(expr.right, env);
+          if (right.kind !== "Closure") return checkAllocation(applyFn(right, left), expr.span);
+          callee = right;
+          callSite = expr.span;
+          calls++;
+          _depth++;
+          if (enterClosure(right)) entered++;
+          env = closureEnv(right, left);
+          expr = right.body;
+          continue;
+        }
+
+        case "List":
+          return checkAllocation({ kind: "List", elements: expr.elements.map(e => evalExpr(e, env)) }, expr.span);
+
+        case "Tuple":
+          return { kind: "Tuple", elements: expr.elements.map(e => evalExpr(e, env)) };
+
+        case "Record": {
+          const fields = new Map<string, Value>();
+          for (const f of expr.fields) {
+            fields.set(f.name, evalExpr(f.value, env));
+          }
+          return { kind: "Record", fields };
+        }
+
+        case "FieldAccess": {
+          const record = evalExpr(expr.expr, env);
+          if (record.kind !== "Record") throw new RillRuntimeError("Field access on non-record", expr.span);
+          const val = record.fields.get(expr.field);
+          if (val === undefined) throw new RillRuntimeError(`No field ${expr.field}`, expr.span);
+          return val;
         }
-        throw new Error("? operator requires Ok(...) or Err(...)");
-      }
-      const left = evalExpr(expr.left, env);
-      const right = evalExpr(expr.right, env);
-      return applyFn(right, left);
-    }
 
-    case "List":
-      return { kind: "List", elements: expr.elements.map(e => evalExpr(e, env)) };
+        case "Tag":
+          return { kind: "Tag", tag: expr.tag, args: expr.args.map(a => evalExpr(a, env)) };
 
-    case "Tuple":
-      return { kind: "Tuple", elements: expr.elements.map(e => evalExpr(e, env)) };
+        case "TypeDecl":
+          expr = expr.body;
+          continue;
 
-    case "Record": {
-      const fields = new Map<string, Value>();
-      for (const f of expr.fields) {
-        fields.set(f.name, evalExpr(f.value, env));
+        case "Import": {
+          const module = env.get(expr.path);
+          if (module === undefined) throw new RillRuntimeError(`Module not loaded: ${expr.path}`, expr.span);
+          env = new Map(env);
+          env.set(expr.name, module);
+          expr = expr.body;
+          continue;
+        }
+
+        case "If": {
+          const cond = evalExpr(expr.cond, env);
+          if (cond.kind !== "Bool") throw new RillRuntimeError("If condition must be Bool", expr.cond.span);
+          expr = cond.value ? expr.then : expr.else_;
+          continue;
+        }
+
+        case "Error":
+          throw new RillRuntimeError("Cannot evaluate source that failed to parse", expr.span);
+
+        default:
+          throw new Error(`Cannot evaluate ${(expr as any).kind} yet`);
       }
-      return { kind: "Record", fields };
     }
+  } catch (e) {
+    throw traced(e, expr.span, callee, callSite);
+  } finally {
+    _depth -= calls;
+    for (; entered > 0; entered--) _onCall!.exit();
+  }
+}
 
-    case "FieldAccess": {
-      const record = evalExpr(expr.expr, env);
-      if (record.kind !== "Record") throw new Error("Field access on non-record");
-      const val = record.fields.get(expr.field);
-      if (val === undefined) throw new Error(`No field ${expr.field}`);
-      return val;
-    }
+// The value inside an Ok, for `?`; an Err returns early to the nearest catch
+function unwrapOk(result: Value, span: Span): Value {
+  if (result.kind === "Tag" && result.tag === "Ok" && result.args.length === 1) {
+    return result.args[0];
+  }
+  if (result.kind === "Tag" && result.tag === "Err") {
+    throw new EarlyReturn(result);
+  }
+  throw new RillRuntimeError("? operator requires Ok(...) or Err(...)", span);
+}
 
-    case "Tag":
-      return { kind: "Tag", tag: expr.tag, args: expr.args.map(a => evalExpr(a, env)) };
+// What a catch makes of the value it receives: an Ok's value, the fallback for
+// an Err, and any other value unchanged
+function recover(expr: Catch, value: Value, env: Map<string, Value>): Value {
+  if (value.kind === "Tag" && value.tag === "Ok" && value.args.length === 1) {
+    return value.args[0];
+  }
+  if (value.kind === "Tag" && value.tag === "Err" && value.args.length >= 1) {
+    const catchEnv = new Map(env);
+    catchEnv.set(expr.errorName, value.args[0]);
+    return evalExpr(expr.fallback, catchEnv);
+  }
+  return value;
+}
 
-    case "If": {
-      const cond = evalExpr(expr.cond, env);
-      if (cond.kind !== "Bool") throw new Error("If condition must be Bool");
-      return cond.value ? evalExpr(expr.then, env) : evalExpr(expr.else_, env);
+// Evaluates a pipe as the untraced one would, but not as a tail call, so the
+// stage's output can be reported
+function evalTracedPipe(expr: Pipe, env: Map<string, Value>, onPipe: (event: PipeEvent) => void): Value {
+  const report = (input: Value, output: Value) => onPipe({ span: expr.span, stage: expr.right.span, input, output });
+  const right = expr.right;
+  if (right.kind === "Catch") {
+    let input: Value | null = null;
+    let output: Value;
+    try {
+      input = evalExpr(expr.left, env);
+      output = recover(right, input, env);
+    } catch (e) {
+      if (!(e instanceof EarlyReturn)) throw e;
+      input ??= e.value;
+      output = recover(right, e.value, env);
     }
-
-    default:
-      throw new Error(`Cannot evaluate ${(expr as any).kind} yet`);
+    report(input, output);
+    return output;
   }
+  const input = evalExpr(expr.left, env);
+  const fn = evalExpr(right.kind === "Try" ? right.expr : right, env);
+  const output = checkAllocation(applyFn(fn, input, expr.span), expr.span);
+  report(input, output);
+  // A `|> f?` stage reports the Result before unwrapping it
+  return right.kind === "Try" ? unwrapOk(output, expr.span) : output;
 }
 
-export function applyFn(fn: Value, arg: Value): Value {
+// `callSite` is the span of the call, when the function is applied by Rill code
+// rather than a builtin
+export function applyFn(fn: Value, arg: Value, callSite: Span | null = null): Value {
   if (fn.kind === "Closure") {
-    const newEnv = new Map(fn.env);
-    newEnv.set(fn.param, arg);
-    return evalExpr(fn.body, newEnv);
+    _depth++;
+    const entered = enterClosure(fn);
+    try {
+      const result = evalExpr(fn.body, closureEnv(fn, arg));
+      // The inner functions of a curried definition share its name
+      return fn.body.kind === "Fn" && fn.name !== undefined ? named(result, fn.name) : result;
+    } catch (e) {
+      throw traced(e, fn.body.span, fn, callSite);
+    } finally {
+      _depth--;
+      if (entered) _onCall!.exit();
+    }
   }
   if (fn.kind === "BuiltinFn") {
     const applied = [...fn.applied, arg];
     if (applied.length >= fn.arity) {
-      return fn.fn(applied);
+      const hook = _onCall;
+      if (!hook) return fn.fn(applied);
+      hook.enter(fn);
+      try {
+        return fn.fn(applied);
+      } finally {
+        hook.exit();
+      }
     }
     return { kind: "BuiltinFn", name: fn.name, arity: fn.arity, applied, fn: fn.fn };
   }
   throw new Error(`Cannot call ${fn.kind}`);
 }
 
+type Closure = Extract<Value, { kind: "Closure" }>;
+
+// Tells the call hook a closure is entered, unless all it does is return the
+// next function of a curried definition; returns whether it did
+function enterClosure(fn: Closure): boolean {
+  if (!_onCall || fn.body.kind === "Fn") return false;
+  _onCall.enter(fn);
+  return true;
+}
+
+// Gives an error escaping evaluation a span (that of the innermost expression
+// being evaluated, for errors raised by builtins) and records the call it
+// escaped from. Early returns and budget errors pass through untouched.
+function traced(e: unknown, span: Span, callee: Closure | null, callSite: Span | null): unknown {
+  if (e instanceof AllocationFailure) return new RillLimitError("memory", e.message, span);
+  if (!(e instanceof Error) || (e instanceof DiagnosticError && !(e instanceof RillRuntimeError))) return e;
+  let error: RillRuntimeError;
+  if (e instanceof RillRuntimeError) error = e;
+  else if (e instanceof AssertionFailure) error = new RillAssertionError(e.message, span, e.expected, e.actual);
+  else error = new RillRuntimeError(e.message, span);
+  if (callee) error.addFrame({ name: callee.name ?? "<fn>", span: callSite });
+  return error;
+}
+
+// The environment a closure's body runs in when applied to `arg`
+function closureEnv(fn: Closure, arg: Value): Map<string, Value> {
+  const env = new Map(fn.env);
+  env.set(fn.param, arg);
+  return env;
+}
+
 function matchPattern(pattern: import("./ast").Pattern, value: Value): Map<string, Value> | null {
   switch (pattern.kind) {
     case "IntPat":
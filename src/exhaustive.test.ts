@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { missingConstructors, CtorLookup } from "./exhaustive";
+import { Pattern } from "./ast";
+import { parse } from "./parser";
+import { lex } from "./lexer";
+
+const CTORS: Record<string, { arity: number; siblings: string[] }> = {
+  Some: { arity: 1, siblings: ["Some", "None"] },
+  None: { arity: 0, siblings: ["Some", "None"] },
+};
+
+const lookup: CtorLookup = (tag) => CTORS[tag] && { typeName: "Option", ...CTORS[tag] };
+
+function patterns(arms: string): Pattern[] {
+  const ast = parse(lex(`match x { ${arms} }`));
+  if (ast.kind !== "Match") throw new Error("expected match");
+  return ast.cases.map((c) => c.pattern);
+}
+
+describe("Exhaustiveness", () => {
+  it("accepts a match covering every constructor", () => {
+    expect(missingConstructors(patterns("Some(x) -> 1, None -> 0"), lookup)).toEqual([]);
+  });
+
+  it("lists uncovered constructors", () => {
+    expect(missingConstructors(patterns("Some(x) -> 1"), lookup)).toEqual(["None"]);
+  });
+
+  it("treats wildcards and bindings as covering everything", () => {
+    expect(missingConstructors(patterns("None -> 0, _ -> 1"), lookup)).toEqual([]);
+    expect(missingConstructors(patterns("None -> 0, other -> 1"), lookup)).toEqual([]);
+  });
+
+  it("reports a constructor whose arguments are only partly covered", () => {
+    expect(missingConstructors(patterns("Some(1) -> 1, None -> 0"), lookup)).toEqual(["Some"]);
+    expect(missingConstructors(patterns("Some(true) -> 1, Some(false) -> 2, None -> 0"), lookup)).toEqual([]);
+  });
+
+  it("looks through tuples and records inside constructors", () => {
+    expect(missingConstructors(patterns("Some((None, y)) -> 1, Some((Some(x), y)) -> 2, None -> 0"), lookup)).toEqual([]);
+    const record: Pattern = { kind: "RecordPat", fields: [{ name: "a", pattern: { kind: "TagPat", tag: "None", args: [] } }] };
+    expect(missingConstructors([{ kind: "TagPat", tag: "Some", args: [record] }, ...patterns("None -> 0")], lookup)).toEqual(["Some"]);
+  });
+
+  it("ignores matches on structural tags", () => {
+    expect(missingConstructors(patterns("Circle(r) -> r"), lookup)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { Pattern } from "./ast";
+
+// What the checker needs to know about a declared constructor
+export interface CtorInfo {
+  typeName: string;
+  arity: number;
+  siblings: string[];
+}
+
+export type CtorLookup = (tag: string) => CtorInfo | undefined;
+
+const WILDCARD: Pattern = { kind: "WildcardPat" };
+
+// Returns the constructors of a declared data type that no arm fully covers.
+// Matches whose arms don't use declared constructors at the top level are not
+// checked: structural tags have no known set of siblings.
+export function missingConstructors(patterns: Pattern[], lookup: CtorLookup): string[] {
+  let info: CtorInfo | undefined;
+  for (const p of patterns) {
+    if (p.kind === "TagPat") info ??= lookup(p.tag);
+  }
+  if (!info) return [];
+
+  const rows = patterns.map((p) => [p]);
+  return info.siblings.filter((tag) => {
+    const arity = lookup(tag)?.arity ?? 0;
+    const probe: Pattern = { kind: "TagPat", tag, args: Array(arity).fill(WILDCARD) };
+    return useful(rows, [probe], lookup);
+  });
+}
+
+// ── Usefulness (Maranget, "Warnings for pattern matching") ──
+
+// A head constructor: a key that identifies it within its column, and the
+// sub-patterns it contributes once the column is specialized.
+interface Head {
+  key: string;
+  arity: number;
+}
+
+function isWild(p: Pattern): boolean {
+  return p.kind === "WildcardPat" || p.kind === "IdentPat";
+}
+
+function headOf(p: Pattern, fields: string[]): Head | null {
+  switch (p.kind) {
+    case "WildcardPat":
+    case "IdentPat": return null;
+    case "IntPat": return { key: `int:${p.value}`, arity: 0 };
+    case "FloatPat": return { key: `float:${p.value}`, arity: 0 };
+    case "StringPat": return { key: `string:${p.value}`, arity: 0 };
+    case "BoolPat": return { key: `bool:${p.value}`, arity: 0 };
+    case "TagPat": return { key: `tag:${p.tag}`, arity: p.args.length };
+    case "TuplePat": return { key: "tuple", arity: p.elements.length };
+    case "RecordPat": return { key: "record", arity: fields.length };
+  }
+}
+
+function subPatterns(p: Pattern, fields: string[]): Pattern[] {
+  switch (p.kind) {
+    case "TagPat": return p.args;
+    case "TuplePat": return p.elements;
+    case "RecordPat": return fields.map((f) => p.fields.find((pf) => pf.name === f)?.pattern ?? WILDCARD);
+    default: return [];
+  }
+}
+
+// Records are a single constructor whose columns are every field named in the column
+function recordFields(column: Pattern[]): string[] {
+  const fields = new Set<string>();
+  for (const p of column) {
+    if (p.kind === "RecordPat") for (const f of p.fields) fields.add(f.name);
+  }
+  return [...fields].sort();
+}
+
+function specialize(rows: Pattern[][], head: Head, fields: string[]): Pattern[][] {
+  const result: Pattern[][] = [];
+  for (const [first, ...rest] of rows) {
+    if (isWild(first)) {
+      result.push([...Array(head.arity).fill(WILDCARD), ...rest]);
+    } else if (headOf(first, fields)!.key === head.key) {
+      result.push([...subPatterns(first, fields), ...rest]);
+    }
+  }
+  return result;
+}
+
+function defaultRows(rows: Pattern[][]): Pattern[][] {
+  return rows.filter(([first]) => isWild(first)).map(([, ...rest]) => rest);
+}
+
+// Whether the heads seen in a column cover every value of its type
+function isComplete(heads: Map<string, Head>, lookup: CtorLookup): boolean {
+  if (heads.has("tuple") || heads.has("record")) return true;
+  if (heads.has("bool:true") && heads.has("bool:false")) return true;
+  if (heads.has("tag:Ok") && heads.has("tag:Err")) return true;
+  for (const key of heads.keys()) {
+    if (!key.startsWith("tag:")) continue;
+    const info = lookup(key.slice(4));
+    if (info) return info.siblings.every((tag) => heads.has(`tag:${tag}`));
+  }
+  return false;
+}
+
+// Whether some value matched by `vector` is matched by no row of `rows`
+function useful(rows: Pattern[][], vector: Pattern[], lookup: CtorLookup): boolean {
+  if (vector.length === 0) return rows.length === 0;
+
+  const column = [...rows.map((r) => r[0]), vector[0]];
+  const fields = recordFields(column);
+  const [first, ...rest] = vector;
+
+  if (!isWild(first)) {
+    const head = headOf(first, fields)!;
+    return useful(specialize(rows, head, fields), [...subPatterns(first, fields), ...rest], lookup);
+  }
+
+  const heads = new Map<string, Head>();
+  for (const [p] of rows) {
+    const head = headOf(p, fields);
+    if (head) heads.set(head.key, head);
+  }
+
+  if (heads.size > 0 && isComplete(heads, lookup)) {
+    return [...heads.values()].some((head) =>
+      useful(specialize(rows, head, fields), [...Array(head.arity).fill(WILDCARD), ...rest], lookup));
+  }
+  return useful(defaultRows(rows), rest, lookup);
+}
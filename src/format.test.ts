@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { format, formatFile } from "./format";
+import { lex } from "./lexer";
+import { parseProgram } from "./parser";
+import { RillSyntaxError } from "./errors";
+
+const EXAMPLES = path.join(__dirname, "..", "examples");
+
+// The program's AST without source positions, to compare layouts that should mean the same
+function shape(source: string): string {
+  return JSON.stringify(parseProgram(lex(source)), (key, value) => (/span$/i.test(key) ? undefined : value));
+}
+
+describe("format", () => {
+  it("normalizes spacing", () => {
+    expect(format("let  x=1+2*3\nx|>to_string")).toBe("let x = 1 + 2 * 3\nx |> to_string\n");
+    expect(format("{a:1,b:[1,2]}")).toBe("{ a: 1, b: [1, 2] }\n");
+  });
+
+  it("keeps the parentheses the parser needs and drops the rest", () => {
+    expect(format("(1 + 2) * 3")).toBe("(1 + 2) * 3\n");
+    expect(format("1 - (2 - 3)")).toBe("1 - (2 - 3)\n");
+    expect(format("(1 * 2) + (3)")).toBe("1 * 2 + 3\n");
+    expect(format("-(-x)")).toBe("-(-x)\n");
+    expect(format("f((1, 2))")).toBe("f((1, 2))\n");
+    expect(format("xs |> fn(x) -> (x |> g)")).toBe("xs |> fn(x) -> (x |> g)\n");
+  });
+
+  it("keeps functions and calls written with several arguments together", () => {
+    expect(format("let add = fn( a,b ) -> a + b\nadd(1 , 2)")).toBe("let add = fn(a, b) -> a + b\nadd(1, 2)\n");
+  });
+
+  it("breaks long pipelines before each stage", () => {
+    const source = "let total = items |> filter(fn(item) -> item.price > 100) |> map(fn(item) -> item.price) |> sum";
+    expect(format(source)).toBe(
+      [
+        "let total = items",
+        "  |> filter(fn(item) -> item.price > 100)",
+        "  |> map(fn(item) -> item.price)",
+        "  |> sum",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps a last function argument on the call's line", () => {
+    const source = "xs |> map(fn(x) -> match x {\n  Some(v) -> v,\n  None -> 0\n})";
+    expect(format(source)).toBe("xs\n  |> map(fn(x) ->\n    match x {\n      Some(v) -> v,\n      None -> 0\n    })\n");
+  });
+
+  it("breaks a match over lines when the source does", () => {
+    expect(format("match x { A -> 1, B -> 2 }")).toBe("match x { A -> 1, B -> 2 }\n");
+    expect(format("match x {\nA -> 1, B -> 2 }")).toBe("match x {\n  A -> 1,\n  B -> 2\n}\n");
+  });
+
+  it("keeps every comment", () => {
+    const source = [
+      "-- Header",
+      "",
+      "-- Doubles",
+      "let double = fn(x) -> x * 2 -- inline",
+      "let f = fn(s) -> match s {",
+      "  -- the good case",
+      "  Ok(v) -> v,",
+      "  Err(e) -> 0 -- fallback",
+      "}",
+      "-- the end",
+    ].join("\n");
+    expect(format(source)).toBe(
+      [
+        "-- Header",
+        "",
+        "-- Doubles",
+        "let double = fn(x) -> x * 2 -- inline",
+        "let f = fn(s) ->",
+        "  match s {",
+        "    -- the good case",
+        "    Ok(v) -> v,",
+        "    Err(e) -> 0 -- fallback",
+        "  }",
+        "-- the end",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("prints a comment once, however it is attached", () => {
+    const cases: [string, string][] = [
+      ["let a = 1\n-- c\na", "let a = 1\n-- c\na\n"],
+      ["-- c\n1 + 2", "-- c\n1 + 2\n"],
+      ["let x =\n  -- c\n  1 + 2", "let x =\n  -- c\n  1 + 2\n"],
+      ["let x = [\n  -- first\n  a |> f,\n  2\n]", "let x = [\n  -- first\n  a |> f,\n  2\n]\n"],
+      ["let s = a -- first\n  + b", "let s = a -- first\n  + b\n"],
+    ];
+    for (const [source, expected] of cases) {
+      expect(format(source)).toBe(expected);
+      expect(format(expected)).toBe(expected);
+    }
+  });
+
+  it("keeps a comment at the end of a line there, breaking what follows", () => {
+    expect(format("let xs = [1, -- one\n2]")).toBe("let xs = [\n  1, -- one\n  2\n]\n");
+    expect(format("match x { -- note\nA -> 1 }")).toBe("match x { -- note\n  A -> 1\n}\n");
+  });
+
+  it("keeps escaped holes escaped", () => {
+    const source = 'let x = 1\nlet s = "\\${x} is ${x}"\nmatch s { "\\${x}" -> "\\${", _ -> s }\n';
+    expect(format(source)).toBe(source);
+  });
+
+  it("formats test declarations", () => {
+    expect(format('test  "adds"=assert_eq(3,1+2)')).toBe('test "adds" = assert_eq(3, 1 + 2)\n');
+  });
+
+  it("keeps blank lines between declarations but not runs of them", () => {
+    expect(format("let a = 1\n\n\n\nlet b = 2\nlet c = 3\na")).toBe("let a = 1\n\nlet b = 2\nlet c = 3\na\n");
+  });
+
+  it("reports syntax errors instead of formatting", () => {
+    expect(() => format("let x = [1, 2 3]")).toThrow(RillSyntaxError);
+  });
+
+  for (const file of fs.readdirSync(EXAMPLES).filter((f) => f.endsWith(".lv"))) {
+    it(`leaves examples/${file} formatted and unchanged in meaning`, () => {
+      const source = fs.readFileSync(path.join(EXAMPLES, file), "utf-8");
+      const formatted = format(source);
+      expect(formatted).toBe(source);
+      expect(format(formatted)).toBe(formatted);
+      expect(shape(formatted)).toBe(shape(source));
+    });
+  }
+
+  it("is idempotent at narrow widths", () => {
+    for (const file of fs.readdirSync(EXAMPLES).filter((f) => f.endsWith(".lv"))) {
+      const source = fs.readFileSync(path.join(EXAMPLES, file), "utf-8");
+      const narrow = format(source, 30);
+      expect(format(narrow, 30)).toBe(narrow);
+      expect(shape(narrow)).toBe(shape(source));
+    }
+  });
+});
+
+describe("formatFile", () => {
+  it("rewrites a file in place, or only reports it with check", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "rill-fmt-")), "main.lv");
+    fs.writeFileSync(file, "let x=1\nx");
+    expect(formatFile(file, { check: true })).toEqual({ changed: true });
+    expect(fs.readFileSync(file, "utf-8")).toBe("let x=1\nx");
+    expect(formatFile(file)).toEqual({ changed: true });
+    expect(fs.readFileSync(file, "utf-8")).toBe("let x = 1\nx\n");
+    expect(formatFile(file, { check: true })).toEqual({ changed: false });
+  });
+
+  it("reports diagnostics for files that don't parse", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "rill-fmt-")), "bad.lv");
+    fs.writeFileSync(file, "let x = (1 +");
+    const result = formatFile(file);
+    expect(result.changed).toBe(false);
+    expect(result.diagnostics?.[0]).toMatchObject({ code: "E0101", file });
+    expect(result.error).toContain("error[E0101]");
+  });
+});
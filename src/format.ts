@@ -0,0 +1,530 @@
+import * as fs from "node:fs";
+import { Binding, Decl, Expr, MatchCase, Pattern, Program, TypeExpr, Variant, childExprs } from "./ast";
+import { escapeString, lex } from "./lexer";
+import { parseProgram } from "./parser";
+import { Comment, Token, TokenKind } from "./token";
+import { Doc, choice, freshline, group, hardline, hasHardBreak, ifBreak, join, line, lineSuffix, nest, render, softline } from "./doc";
+import { toDiagnostics } from "./errors";
+import { Diagnostic, renderDiagnostic } from "./diagnostics";
+
+const WIDTH = 80;
+const INDENT = 2;
+
+// Binding powers, as in the parser: an operand needs parentheses when the
+// parser would otherwise attach it differently
+const PIPE_BP: [number, number] = [5, 6];
+const PREFIX_BP = 80;
+const POSTFIX_BP = 90;
+const DOT_BP = 95;
+// Nothing follows the expression that could continue it
+const NOTHING = -1;
+
+const BINARY_BP: Record<string, [number, number]> = {
+  "||": [10, 11],
+  "&&": [20, 21],
+  "==": [30, 31],
+  "!=": [30, 31],
+  "<": [40, 41],
+  ">": [40, 41],
+  "<=": [40, 41],
+  ">=": [40, 41],
+  "++": [50, 51],
+  "+": [60, 61],
+  "-": [60, 61],
+  "*": [70, 71],
+  "/": [70, 71],
+  "%": [70, 71],
+};
+
+// Something comments can be attached to: they are printed on the lines before
+// it, or after it on its last line when they followed it there
+type Anchor = Expr | Decl | MatchCase | Binding;
+
+// Lays out a whole file in the canonical style, keeping its comments. Throws
+// the syntax errors of source that doesn't parse.
+export function format(source: string, width = WIDTH): string {
+  const tokens = lex(source, { comments: true });
+  return new Formatter(source, tokens, parseProgram(tokens)).format(width);
+}
+
+interface FormatResult {
+  // Whether the file's layout differs from the canonical one
+  changed: boolean;
+  // The diagnostics, rendered for a terminal, when the file couldn't be formatted
+  error?: string;
+  diagnostics?: Diagnostic[];
+}
+
+// Formats a file in place, or with `check` only reports whether it would change
+export function formatFile(file: string, options: { check?: boolean } = {}): FormatResult {
+  let source: string;
+  try {
+    source = fs.readFileSync(file, "utf-8");
+  } catch (e: any) {
+    return { changed: false, error: `Error reading file: ${e.message}` };
+  }
+  let formatted: string;
+  try {
+    formatted = format(source);
+  } catch (e) {
+    const diagnostics = toDiagnostics(e).map((d) => ({ ...d, file: d.file ?? file }));
+    return { changed: false, error: diagnostics.map((d) => renderDiagnostic(d, source)).join("\n\n"), diagnostics };
+  }
+  const changed = formatted !== source;
+  if (changed && !options.check) fs.writeFileSync(file, formatted);
+  return { changed };
+}
+
+class Formatter {
+  private comments = new Map<Anchor, Comment[]>();
+  // Comments at the end of the line an anchor ends on
+  private after = new Map<Anchor, Comment>();
+  // Comments after the last anchor, printed at the end of the file
+  private trailing: Comment[] = [];
+  private total = 0;
+  // Comments before the closing brace of a match, printed after its last case
+  private closing = new Map<Expr, Comment[]>();
+  private printed = new Set<Comment>();
+
+  constructor(
+    private source: string,
+    tokens: Token[],
+    private program: Program,
+  ) {
+    this.attachComments(tokens);
+  }
+
+  format(width: number): string {
+    const items: Doc[] = [];
+    const { decls, body } = this.program;
+    decls.forEach((decl, i) => {
+      const last = i === decls.length - 1;
+      items.push(this.item(decl, this.decl(decl, last && body !== null && this.continues(body))));
+    });
+    if (body) items.push(this.item(body, this.topLevelBody(body)));
+    for (const c of this.trailing) {
+      items.push([this.blankLineBefore(c.span.start.offset) ? hardline : [], c.text]);
+    }
+    if (this.printed.size + this.trailing.length !== this.total) throw new Error("The formatter lost a comment");
+    return render(join(hardline, items), width) + "\n";
+  }
+
+  // ── Comments ───────────────────────────────────────────
+
+  // Attaches each token's comments to the outermost node starting at or after
+  // it. A comment on the line of the token before goes after the outermost node
+  // ending last before it on that line, when there is one.
+  private attachComments(tokens: Token[]): void {
+    const anchors: Anchor[] = [];
+    const matchEnds = new Map<number, Expr>();
+    const visit = (expr: Expr) => {
+      anchors.push(expr);
+      if (expr.kind === "Match") {
+        matchEnds.set(expr.span.end.offset, expr);
+        visit(expr.subject);
+        for (const c of expr.cases) {
+          anchors.push(c);
+          visit(c.body);
+        }
+      } else if (expr.kind === "LetRec") {
+        for (const b of expr.bindings) {
+          anchors.push(b);
+          visit(b.value);
+        }
+        visit(expr.body);
+      } else {
+        childExprs(expr).forEach(visit);
+      }
+    };
+    for (const decl of this.program.decls) {
+      anchors.push(decl);
+      if (decl.kind === "LetDecl") visit(decl.value);
+      if (decl.kind === "TestDecl") visit(decl.body);
+      if (decl.kind === "LetRecDecl") {
+        for (const b of decl.bindings) {
+          anchors.push(b);
+          visit(b.value);
+        }
+      }
+    }
+    if (this.program.body) visit(this.program.body);
+    // A stable sort keeps outer nodes ahead of the inner ones starting with them
+    anchors.sort((a, b) => a.span.start.offset - b.span.start.offset);
+
+    let next = 0;
+    tokens.forEach((token, i) => {
+      if (!token.comments) return;
+      this.total += token.comments.length;
+      let comments = token.comments;
+      const ended = i > 0 ? this.endingBefore(anchors, comments[0]) : undefined;
+      if (ended) {
+        this.after.set(ended, comments[0]);
+        comments = comments.slice(1);
+        if (comments.length === 0) return;
+      }
+      const match = token.kind === TokenKind.RBrace ? matchEnds.get(token.span.end.offset) : undefined;
+      if (match) {
+        this.closing.set(match, comments);
+        return;
+      }
+      while (next < anchors.length && anchors[next].span.start.offset < token.span.start.offset) next++;
+      if (next === anchors.length) {
+        this.trailing.push(...comments);
+      } else {
+        const anchor = anchors[next];
+        this.comments.set(anchor, [...(this.comments.get(anchor) ?? []), ...comments]);
+      }
+    });
+  }
+
+  // The outermost node ending last before `comment` on the comment's line
+  private endingBefore(anchors: Anchor[], comment: Comment): Anchor | undefined {
+    let found: Anchor | undefined;
+    for (const anchor of anchors) {
+      const { end } = anchor.span;
+      if (end.line !== comment.span.start.line || end.offset > comment.span.start.offset) continue;
+      if (!found || end.offset > found.span.end.offset) found = anchor;
+    }
+    return found;
+  }
+
+  private hasComments(anchor: Anchor): boolean {
+    return this.comments.has(anchor) || this.after.has(anchor);
+  }
+
+  // Prints the comments attached to `anchor` on the lines before `doc`, and
+  // the one after it at the end of its last line
+  private withComments(anchor: Anchor, doc: Doc, keepBlankLines = false): Doc {
+    const after = this.after.get(anchor);
+    if (after) {
+      this.printed.add(after);
+      doc = [doc, lineSuffix(` ${after.text}`)];
+    }
+    const comments = this.comments.get(anchor);
+    if (!comments) return doc;
+    comments.forEach((c) => this.printed.add(c));
+    const blankLine = (offset: number) => (keepBlankLines && this.blankLineBefore(offset) ? hardline : []);
+    return [
+      ...comments.map((c, i) => [freshline, i > 0 ? blankLine(c.span.start.offset) : [], c.text, hardline]),
+      blankLine(anchor.span.start.offset),
+      doc,
+    ];
+  }
+
+  private blankLineBefore(offset: number): boolean {
+    return /\n[ \t\r]*\n[ \t\r]*$/.test(this.source.slice(0, offset));
+  }
+
+  // ── Top level ──────────────────────────────────────────
+
+  // A declaration or the final expression, separated from the one before by a
+  // blank line when the source had one
+  private item(anchor: Decl | Expr, doc: Doc): Doc {
+    const first = this.comments.get(anchor)?.[0]?.span ?? anchor.span;
+    const blank = first.start.offset > 0 && this.blankLineBefore(first.start.offset);
+    return [blank ? hardline : [], this.withComments(anchor, doc, true)];
+  }
+
+  private decl(decl: Decl, beforeContinuation: boolean): Doc {
+    // The value of the last declaration is wrapped when the final expression
+    // would otherwise read as its continuation, like `let f = g` then `(1, 2)`
+    const value = (e: Expr, last = true) => {
+      const doc = beforeContinuation && last ? ["(", this.expr(e), ")"] : this.expr(e);
+      // Comments before the value go on the lines below the `=`, indented with it
+      return this.comments.has(e) ? nest(INDENT, doc) : doc;
+    };
+    switch (decl.kind) {
+      case "LetDecl":
+        return ["let ", decl.name, " = ", value(decl.value)];
+      case "LetRecDecl": {
+        const bindings = decl.bindings.map((b, i) => this.binding(b, (e) => value(e, i === decl.bindings.length - 1)));
+        return group(["let rec ", join([line, "and "], bindings)]);
+      }
+      case "TypeDef":
+        return this.typeDef(decl);
+      case "ImportDecl":
+        return ["import ", JSON.stringify(decl.path), " as ", decl.name];
+      case "TestDecl":
+        return ["test \"", decl.name, "\" = ", value(decl.body)];
+    }
+  }
+
+  // The final expression, without the comments `item` prints around it
+  private topLevelBody(body: Expr): Doc {
+    return this.program.decls.length > 0 && this.start(body).startsWith("-") ? ["(", this.layout(body), ")"] : this.layout(body);
+  }
+
+  // Whether the final expression could be read as continuing the declaration before it
+  private continues(body: Expr): boolean {
+    return /^[(-]/.test(this.start(body));
+  }
+
+  // The first line of an expression's layout, past its comments
+  private start(expr: Expr): string {
+    const printed = new Set(this.printed);
+    const lines = render(this.layout(expr), Infinity).split("\n");
+    this.printed = printed;
+    return lines.map((l) => l.trimStart()).find((l) => !l.startsWith("--")) ?? "";
+  }
+
+  // ── Expressions ────────────────────────────────────────
+
+  // Lays out `expr` where the parser would read it with `minBp`, followed by an
+  // operator binding `next` tightly (or by NOTHING), adding parentheses as needed
+  private expr(expr: Expr, minBp = 0, next = NOTHING): Doc {
+    return this.withComments(expr, this.layout(expr, minBp, next));
+  }
+
+  // `expr` without the comments attached to it
+  private layout(expr: Expr, minBp = 0, next = NOTHING): Doc {
+    const parens = leftBp(expr) < minBp || next >= rightBp(expr);
+    return parens ? ["(", this.bare(expr, 0, NOTHING), ")"] : this.bare(expr, minBp, next);
+  }
+
+  private bare(expr: Expr, minBp: number, next: number): Doc {
+    switch (expr.kind) {
+      case "IntLit":
+      case "FloatLit":
+        return this.source.slice(expr.span.start.offset, expr.span.end.offset);
+      case "StringLit":
+        return `"${escapeString(expr.value)}"`;
+      case "StringInterp":
+        return [
+          '"',
+          escapeString(expr.parts[0]),
+          ...expr.exprs.map((e, i) => ["${", render(this.expr(e), Infinity), "}", escapeString(expr.parts[i + 1])]),
+          '"',
+        ];
+      case "BoolLit":
+        return String(expr.value);
+      case "UnitLit":
+        return "()";
+      case "Ident":
+        return expr.name;
+      case "Let":
+      case "LetRec":
+      case "TypeDecl":
+      case "Import":
+        return this.scoped(expr, next);
+      case "Fn":
+        return this.fn(expr, next);
+      case "Call": {
+        const args: Expr[] = [];
+        let callee: Expr = expr;
+        // f(a, b) is sugar for f(a)(b): both calls end at the same parenthesis
+        while (callee.kind === "Call" && callee.span.end.offset === expr.span.end.offset) {
+          args.unshift(callee.arg);
+          callee = callee.fn;
+        }
+        return this.call(this.expr(callee, POSTFIX_BP), args);
+      }
+      case "BinOp":
+        return this.chain(expr, minBp, next);
+      case "Pipe":
+        return this.chain(expr, minBp, next);
+      case "UnaryOp": {
+        const operand = this.expr(expr.expr, PREFIX_BP, next);
+        // `--` would start a comment
+        const nested = expr.op === "-" && expr.expr.kind === "UnaryOp" && expr.expr.op === "-";
+        return [expr.op, nested ? ["(", operand, ")"] : operand];
+      }
+      case "Try":
+        return [this.expr(expr.expr, minBp, POSTFIX_BP), "?"];
+      case "Catch":
+        return [`catch ${expr.errorName} ->`, group(nest(INDENT, [line, this.expr(expr.fallback, 0, next)]))];
+      case "Match":
+        return this.match(expr);
+      case "If":
+        // `if` has no syntax of its own; it reads the same as a match on the condition
+        return this.match({
+          kind: "Match",
+          subject: expr.cond,
+          cases: [
+            { pattern: { kind: "BoolPat", value: true }, body: expr.then, span: expr.then.span },
+            { pattern: { kind: "BoolPat", value: false }, body: expr.else_, span: expr.else_.span },
+          ],
+          span: expr.span,
+        });
+      case "List":
+        return this.list("[", expr.elements, "]");
+      case "Tuple":
+        return this.list("(", expr.elements, ")");
+      case "Record":
+        if (expr.fields.length === 0) return "{}";
+        return group([
+          "{",
+          nest(INDENT, [line, join([",", line], expr.fields.map((f) => [f.name, ": ", this.expr(f.value)]))]),
+          line,
+          "}",
+        ]);
+      case "FieldAccess":
+        return [this.expr(expr.expr, minBp, DOT_BP), ".", expr.field];
+      case "Tag":
+        return expr.args.length === 0 ? expr.tag : this.call(expr.tag, expr.args);
+      case "Error":
+        throw new Error("Cannot format source that failed to parse");
+    }
+  }
+
+  // A function literal passed last keeps its head on the call's line:
+  //   map(fn(t) ->
+  //     t.title)
+  private call(callee: Doc, args: Expr[]): Doc {
+    const normal = [callee, this.list("(", args, ")")];
+    const last = args[args.length - 1];
+    if (last?.kind !== "Fn" || this.hasComments(last)) return normal;
+    const others = args.slice(0, -1).map((a) => [this.expr(a), ", "]);
+    const hugged = [callee, "(", group(others), this.fn(last, NOTHING, true), ")"];
+    // With a hard break inside, the arguments can't all go on one line
+    return hasHardBreak(normal) ? choice(hugged, group(normal)) : choice(group(normal), hugged, group(normal));
+  }
+
+  // Elements between brackets, one per line when they don't fit on one
+  private list(open: string, elements: Expr[], close: string): Doc {
+    if (elements.length === 0) return open + close;
+    return group([open, nest(INDENT, [softline, join([",", line], elements.map((e) => this.expr(e)))]), softline, close]);
+  }
+
+  // A run of operators of the same precedence, broken before each operator:
+  //   todos
+  //     |> filter(is_done)
+  //     |> length
+  private chain(expr: Expr & { kind: "BinOp" | "Pipe" }, minBp: number, next: number): Doc {
+    const [lbp, rbp] = expr.kind === "Pipe" ? PIPE_BP : BINARY_BP[expr.op];
+    const operands: Expr[] = [];
+    const ops: string[] = [];
+    let left: Expr = expr;
+    // The comments of `expr` itself are printed around the whole chain
+    while ((left.kind === "BinOp" || left.kind === "Pipe") && leftBp(left) === lbp && (left === expr || !this.hasComments(left))) {
+      operands.unshift(left.right);
+      ops.unshift(left.kind === "Pipe" ? "|>" : left.op);
+      left = left.left;
+    }
+    const rest = operands.map((operand, i) => [line, ops[i], " ", this.expr(operand, rbp, i < operands.length - 1 ? lbp : next)]);
+    return group([this.expr(left, minBp, lbp), nest(INDENT, rest)]);
+  }
+
+  // `let`, `type` and `import` scoped over a body. A run of them breaks as one,
+  // each on its own line.
+  private scoped(expr: Expr, next: number): Doc {
+    const heads: Doc[] = [];
+    let body: Expr = expr;
+    while (heads.length === 0 || (isScoped(body) && !this.hasComments(body))) {
+      switch (body.kind) {
+        case "Let":
+          heads.push(["let ", body.name, " = ", this.expr(body.value), " in"]);
+          break;
+        case "LetRec":
+          heads.push(group(["let rec ", join([line, "and "], body.bindings.map((b) => this.binding(b, (e) => this.expr(e)))), " in"]));
+          break;
+        case "TypeDecl":
+          heads.push([this.typeDef(body), " in"]);
+          break;
+        case "Import":
+          heads.push(["import ", JSON.stringify(body.path), " as ", body.name, " in"]);
+          break;
+      }
+      body = (body as Expr & { body: Expr }).body;
+    }
+    return group(join(line, [...heads, this.expr(body, 0, next)]));
+  }
+
+  private binding(binding: Binding, value: (e: Expr) => Doc): Doc {
+    return this.withComments(binding, [binding.name, " = ", value(binding.value)]);
+  }
+
+  private fn(expr: Expr & { kind: "Fn" }, next: number, bodyBelow = false): Doc {
+    const params: string[] = [];
+    let body: Expr = expr;
+    // fn(a, b) is sugar for fn(a) -> fn(b): both functions start at the same `fn`
+    while (body.kind === "Fn" && body.span.start.offset === expr.span.start.offset && (body === expr || !this.hasComments(body))) {
+      // fn() binds its argument to `_`, with the `fn` keyword standing in for the name
+      if (!(body.param === "_" && body.paramSpan.start.offset === expr.span.start.offset)) params.push(body.param);
+      body = body.body;
+    }
+    return [`fn(${params.join(", ")}) ->`, group(nest(INDENT, [line, this.expr(body, PIPE_BP[1], next)]), bodyBelow)];
+  }
+
+  // Cases go on one line when they fit and were written on one line
+  private match(expr: Expr & { kind: "Match" }): Doc {
+    const subject = this.expr(expr.subject);
+    if (expr.cases.length === 0) return ["match ", subject, " {}"];
+    const between = this.source.slice(expr.subject.span.end.offset, expr.cases[0].span.start.offset);
+    const cases = expr.cases.map((c) =>
+      this.withComments(c, [this.pattern(c.pattern), " ->", group(nest(INDENT, [line, this.expr(c.body)]))]),
+    );
+    const closing = this.closing.get(expr) ?? [];
+    closing.forEach((c) => this.printed.add(c));
+    const body = [line, join([",", line], cases), closing.map((c) => [hardline, c.text])];
+    return group(["match ", subject, " {", nest(INDENT, body), line, "}"], between.includes("\n"));
+  }
+
+  private pattern(pattern: Pattern): string {
+    switch (pattern.kind) {
+      case "IntPat": return String(pattern.value);
+      case "FloatPat": return Number.isInteger(pattern.value) ? `${pattern.value}.0` : String(pattern.value);
+      case "StringPat": return `"${escapeString(pattern.value)}"`;
+      case "BoolPat": return String(pattern.value);
+      case "WildcardPat": return "_";
+      case "IdentPat": return pattern.name;
+      case "TagPat": return pattern.args.length === 0 ? pattern.tag : `${pattern.tag}(${pattern.args.map((p) => this.pattern(p)).join(", ")})`;
+      case "TuplePat": return `(${pattern.elements.map((p) => this.pattern(p)).join(", ")})`;
+      case "RecordPat": return `{ ${pattern.fields.map((f) => `${f.name}: ${this.pattern(f.pattern)}`).join(", ")} }`;
+    }
+  }
+
+  // ── Types ──────────────────────────────────────────────
+
+  private typeDef(decl: { name: string; params: string[]; variants: Variant[] }): Doc {
+    const params = decl.params.length > 0 ? `(${decl.params.join(", ")})` : "";
+    const variants = decl.variants.map((v) => (v.args.length === 0 ? v.tag : `${v.tag}(${v.args.map(typeExpr).join(", ")})`));
+    return group([`type ${decl.name}${params} =`, nest(INDENT, [line, ifBreak("| "), join([line, "| "], variants)])]);
+  }
+}
+
+function typeExpr(type: TypeExpr): string {
+  switch (type.kind) {
+    case "NamedType": return type.args.length === 0 ? type.name : `${type.name}(${type.args.map(typeExpr).join(", ")})`;
+    case "VarType": return type.name;
+    case "FnType": {
+      // A tuple parameter needs its own parentheses: `(a, b) -> c` takes two parameters
+      const param = type.param.kind === "FnType" || type.param.kind === "TupleType" ? `(${typeExpr(type.param)})` : typeExpr(type.param);
+      return `${param} -> ${typeExpr(type.ret)}`;
+    }
+    case "TupleType": return `(${type.elements.map(typeExpr).join(", ")})`;
+    case "RecordType": return `{ ${type.fields.map((f) => `${f.name}: ${typeExpr(f.type)}`).join(", ")} }`;
+  }
+}
+
+function isScoped(expr: Expr): boolean {
+  return expr.kind === "Let" || expr.kind === "LetRec" || expr.kind === "TypeDecl" || expr.kind === "Import";
+}
+
+// The binding power of the operator at the top of `expr`, which the parser
+// only continues an expression with when it is at least the minimum
+function leftBp(expr: Expr): number {
+  switch (expr.kind) {
+    case "BinOp": return BINARY_BP[expr.op][0];
+    case "Pipe": return PIPE_BP[0];
+    case "Try": return POSTFIX_BP;
+    case "FieldAccess": return DOT_BP;
+    default: return Infinity;
+  }
+}
+
+// The minimum binding power of the operators `expr` would swallow from the
+// source after it: its last operand reads on for as long as it can
+function rightBp(expr: Expr): number {
+  switch (expr.kind) {
+    case "BinOp": return BINARY_BP[expr.op][1];
+    case "Pipe":
+    case "Fn": return PIPE_BP[1];
+    case "UnaryOp": return PREFIX_BP;
+    case "Let":
+    case "LetRec":
+    case "TypeDecl":
+    case "Import":
+    case "Catch": return 0;
+    default: return Infinity;
+  }
+}
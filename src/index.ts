@@ -1,28 +1,129 @@
 #!/usr/bin/env node
 import * as fs from "node:fs";
+import * as path from "node:path";
 import * as readline from "node:readline";
 import { ReplSession } from "./repl";
-import { runSource } from "./runner";
+import { RunOptions, RunResult, runFile } from "./runner";
+import { formatPipeEvent } from "./trace";
+import { debugFile, terminalIO } from "./debugger";
+import { serveStdio } from "./lsp";
+import { formatFile } from "./format";
+import { lintFile } from "./lint";
+import { findTestFiles, runTestFile, testReport, testsFailed } from "./testing";
+import { coverageSummary, lcov, runCoverage } from "./coverage";
+import { Profiler } from "./profiler";
 
-const args = process.argv.slice(2);
+const argv = process.argv.slice(2);
+const flags = argv.filter((a) => a.startsWith("--"));
+const args = argv.filter((a) => !a.startsWith("--"));
+
+// --error-format=json prints each diagnostic as a line of JSON, for editors and CI
+const errorFormat = flags.find((f) => f.startsWith("--error-format="))?.slice("--error-format=".length) ?? "human";
+if (errorFormat !== "human" && errorFormat !== "json") {
+  console.error(`Unknown error format: ${errorFormat} (expected human or json)`);
+  process.exit(1);
+}
+
+// Prints the outcome of running a file, exiting with 1 if it failed
+function finish(result: RunResult): void {
+  if (result.error) {
+    if (errorFormat === "json" && result.diagnostics) {
+      for (const d of result.diagnostics) console.error(JSON.stringify(d));
+    } else {
+      console.error(result.error);
+    }
+    process.exit(1);
+  }
+  if (result.output !== undefined) {
+    console.log(result.output);
+  }
+}
 
 if (args[0] === "run" && args[1]) {
-  // File runner mode
-  const filePath = args[1];
-  try {
-    const source = fs.readFileSync(filePath, "utf-8");
-    const result = runSource(source);
+  // File runner mode; --trace-pipes logs each `|>` stage's input and output to
+  // stderr, and --profile[=<file>] prints the time spent in each function and
+  // writes the calls as a Chrome trace
+  const options: RunOptions = {};
+  if (flags.includes("--trace-pipes")) {
+    const source = fs.existsSync(args[1]) ? fs.readFileSync(args[1], "utf-8") : undefined;
+    options.onPipe = (event) => console.error(formatPipeEvent(event, source));
+  }
+  const profile = flags.find((f) => f === "--profile" || f.startsWith("--profile="));
+  const profiler = profile ? new Profiler() : null;
+  if (profiler) options.onCall = profiler;
+  const result = runFile(args[1], options);
+  if (profile && profiler) {
+    const out = profile.slice("--profile=".length) || "profile.json";
+    fs.writeFileSync(out, JSON.stringify(profiler.trace()));
+    console.error(`${profiler.table()}\n\nWrote ${out}`);
+  }
+  finish(result);
+} else if (args[0] === "debug" && args[1]) {
+  // Debugger mode: runs the file paused before it starts, taking commands from stdin
+  finish(debugFile(args[1], terminalIO()));
+} else if (args[0] === "fmt" && args[1]) {
+  // Formatter mode: rewrites files in place, or with --check lists those that would change
+  const check = flags.includes("--check");
+  let failed = false;
+  for (const file of args.slice(1)) {
+    const result = formatFile(file, { check });
     if (result.error) {
-      console.error(result.error);
-      process.exit(1);
+      if (errorFormat === "json" && result.diagnostics) {
+        for (const d of result.diagnostics) console.error(JSON.stringify(d));
+      } else {
+        console.error(result.error);
+      }
+      failed = true;
+    } else if (result.changed && check) {
+      console.log(file);
+      failed = true;
     }
-    if (result.output !== undefined) {
-      console.log(result.output);
+  }
+  if (failed) process.exit(1);
+} else if (args[0] === "lint" && args[1]) {
+  // Linter mode: reports likely mistakes, exiting with 1 if there are any
+  let found = false;
+  for (const file of args.slice(1)) {
+    const result = lintFile(file);
+    if (result.diagnostics.length === 0) continue;
+    found = true;
+    if (errorFormat === "json") {
+      for (const d of result.diagnostics) console.error(JSON.stringify(d));
+    } else {
+      console.error(result.report);
     }
-  } catch (e: any) {
-    console.error(`Error reading file: ${e.message}`);
+  }
+  if (found) process.exit(1);
+} else if (args[0] === "test") {
+  // Test mode: runs the tests in the given files, or in the *_test.lv files
+  // under the given directories (by default the working directory)
+  const files = findTestFiles(args.length > 1 ? args.slice(1) : ["."]);
+  if (files.length === 0) {
+    console.error("No *_test.lv files found");
+    process.exit(1);
+  }
+  const results = files.map((file) => runTestFile(file));
+  console.log(testReport(results));
+  if (testsFailed(results)) process.exit(1);
+} else if (args[0] === "coverage") {
+  // Coverage mode: runs tests as `rill test` does, then reports the expressions
+  // and match arms they never reached and writes LCOV to --lcov=<file>
+  const files = findTestFiles(args.length > 1 ? args.slice(1) : ["."]);
+  if (files.length === 0) {
+    console.error("No *_test.lv files found");
     process.exit(1);
   }
+  const { results, coverage } = runCoverage(files);
+  console.log(testReport(results));
+  console.log("\n" + coverageSummary(coverage));
+  const out = flags.find((f) => f.startsWith("--lcov="))?.slice("--lcov=".length) ?? path.join("coverage", "lcov.info");
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, lcov(coverage));
+  console.log(`\nWrote ${out}`);
+  if (testsFailed(results)) process.exit(1);
+} else if (args[0] === "lsp") {
+  // Language server mode, for editors
+  serveStdio(process.stdin, process.stdout);
 } else if (args.length === 0) {
   // REPL mode
   const session = new ReplSession();
@@ -56,6 +157,6 @@ if (args[0] === "run" && args[1]) {
 
   prompt();
 } else {
-  console.error("Usage: rill [run <file>]");
+  console.error("Usage: rill [run [--trace-pipes] [--profile[=<file>]] <file> | debug <file> | fmt [--check] <files> | lint <files> | test [<paths>] | coverage [--lcov=<file>] [<paths>] | lsp] [--error-format=human|json]");
   process.exit(1);
 }
@@ -47,6 +47,20 @@ describe("Lexer", () => {
       ]);
     });
 
+    it("lexes the and keyword", () => {
+      expect(kinds("and android")).toEqual([TokenKind.And, TokenKind.Ident, TokenKind.EOF]);
+    });
+
+    it("lexes the type keyword", () => {
+      expect(kinds("type Shape")).toEqual([TokenKind.Type, TokenKind.UpperIdent, TokenKind.EOF]);
+    });
+
+    it("lexes import keywords", () => {
+      expect(kinds('import "./a.lv" as a')).toEqual([
+        TokenKind.Import, TokenKind.String, TokenKind.As, TokenKind.Ident, TokenKind.EOF,
+      ]);
+    });
+
     it("lexes uppercase identifiers as UpperIdent", () => {
       expect(kinds("Ok Err Circle")).toEqual([
         TokenKind.UpperIdent, TokenKind.UpperIdent, TokenKind.UpperIdent, TokenKind.EOF,
@@ -81,6 +95,10 @@ describe("Lexer", () => {
       ]);
     });
 
+    it("lexes | vs || and |>", () => {
+      expect(kinds("| || |>")).toEqual([TokenKind.Bar, TokenKind.PipePipe, TokenKind.Pipe, TokenKind.EOF]);
+    });
+
     it("lexes = vs ==", () => {
       expect(kinds("= ==")).toEqual([TokenKind.Eq, TokenKind.EqEq, TokenKind.EOF]);
     });
@@ -133,6 +151,44 @@ describe("Lexer", () => {
     });
   });
 
+  describe("string interpolation", () => {
+    it("splits an interpolated string into parts around each hole", () => {
+      expect(kinds('"Hi ${name}, ${n} items"')).toEqual([
+        TokenKind.InterpStart, TokenKind.Ident, TokenKind.InterpMiddle,
+        TokenKind.Ident, TokenKind.InterpEnd, TokenKind.EOF,
+      ]);
+      expect(lexemes('"Hi ${name}, ${n} items"')).toEqual(['"Hi ${', "name", "}, ${", "n", '} items"']);
+    });
+
+    it("lexes braces inside a hole as ordinary tokens", () => {
+      expect(kinds('"${ { a: 1 }.a }"')).toEqual([
+        TokenKind.InterpStart, TokenKind.LBrace, TokenKind.Ident, TokenKind.Colon,
+        TokenKind.Int, TokenKind.RBrace, TokenKind.Dot, TokenKind.Ident,
+        TokenKind.InterpEnd, TokenKind.EOF,
+      ]);
+    });
+
+    it("lexes strings nested in a hole", () => {
+      expect(kinds('"a ${"b ${c}"} d"')).toEqual([
+        TokenKind.InterpStart, TokenKind.InterpStart, TokenKind.Ident,
+        TokenKind.InterpEnd, TokenKind.InterpEnd, TokenKind.EOF,
+      ]);
+    });
+
+    it("leaves a lone $ as text", () => {
+      expect(kinds('"costs $5"')).toEqual([TokenKind.String, TokenKind.EOF]);
+    });
+
+    it("keeps an escaped \\${ as text", () => {
+      expect(kinds('"\\${x} and ${y}"')).toEqual([TokenKind.InterpStart, TokenKind.Ident, TokenKind.InterpEnd, TokenKind.EOF]);
+      expect(lexemes('"\\${x}"')).toEqual(['"\\${x}"']);
+    });
+
+    it("reports an unterminated hole", () => {
+      expect(() => lex('"a ${b')).toThrow("unterminated string interpolation");
+    });
+  });
+
   describe("lexer errors", () => {
     it("reports unexpected characters with position", () => {
       expect(() => lex("let x = @")).toThrow();
@@ -190,4 +246,18 @@ describe("Lexer", () => {
       ]);
     });
   });
+
+  describe("comments", () => {
+    it("drops comments by default", () => {
+      expect(lex("-- note\nx").every((t) => t.comments === undefined)).toBe(true);
+    });
+
+    it("attaches comments to the token after them when asked", () => {
+      const [x, y, eof] = lex("-- first\n-- second\nx y -- end of line\n-- at the end", { comments: true });
+      expect(x.comments?.map((c) => c.text)).toEqual(["-- first", "-- second"]);
+      expect(x.comments?.[1].span.start).toMatchObject({ line: 2, col: 1 });
+      expect(y.comments).toBeUndefined();
+      expect(eof.comments?.map((c) => c.text)).toEqual(["-- end of line", "-- at the end"]);
+    });
+  });
 });
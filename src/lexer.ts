@@ -1,20 +1,43 @@
-import { Token, TokenKind } from "./token";
+import { Comment, Token, TokenKind } from "./token";
 import { Span } from "./span";
+import { Codes } from "./diagnostics";
+import { RillSyntaxError } from "./errors";
 
 const KEYWORDS: Record<string, TokenKind> = {
   let: TokenKind.Let,
   rec: TokenKind.Rec,
+  and: TokenKind.And,
   fn: TokenKind.Fn,
   match: TokenKind.Match,
   catch: TokenKind.Catch,
   in: TokenKind.In,
   if: TokenKind.If,
+  type: TokenKind.Type,
+  import: TokenKind.Import,
+  as: TokenKind.As,
+  test: TokenKind.Test,
   true: TokenKind.True,
   false: TokenKind.False,
 };
 
-export function lex(source: string): Token[] {
+export interface LexOptions {
+  // Keep comments as trivia on the token after them, for tools that rewrite source
+  comments?: boolean;
+}
+
+// `\${` in a string is a literal `${` rather than the start of a hole. String
+// tokens keep the escape as written; these convert between it and the text.
+export function unescapeString(text: string): string {
+  return text.replaceAll("\\${", "${");
+}
+
+export function escapeString(text: string): string {
+  return text.replaceAll("${", "\\${");
+}
+
+export function lex(source: string, options: LexOptions = {}): Token[] {
   const tokens: Token[] = [];
+  let comments: Comment[] = [];
   let pos = 0;
   let line = 1;
   let col = 1;
@@ -47,7 +70,12 @@ export function lex(source: string): Token[] {
   }
 
   function emit(kind: TokenKind, lexeme: string, startLine: number, startCol: number, startOffset: number) {
-    tokens.push({ kind, lexeme, span: makeSpan(startLine, startCol, startOffset) });
+    const token: Token = { kind, lexeme, span: makeSpan(startLine, startCol, startOffset) };
+    if (comments.length > 0) {
+      token.comments = comments;
+      comments = [];
+    }
+    tokens.push(token);
   }
 
   function skipWhitespace() {
@@ -57,32 +85,48 @@ export function lex(source: string): Token[] {
         advance();
       } else if (ch === "-" && peekNext() === "-") {
         // Line comment
+        const startLine = line;
+        const startCol = col;
+        const startOffset = pos;
         while (pos < source.length && peek() !== "\n") {
           advance();
         }
+        if (options.comments) {
+          const text = source.slice(startOffset, pos).trimEnd();
+          comments.push({ text, span: makeSpan(startLine, startCol, startOffset) });
+        }
       } else {
         break;
       }
     }
   }
 
-  function readString(): string {
-    const startLine = line;
-    const startCol = col;
-    const startOffset = pos;
-    advance(); // opening "
-    let value = '"';
+  // Open interpolation holes, each recording the brace depth it was opened at
+  const holes: number[] = [];
+  let braceDepth = 0;
+
+  // Reads string content up to and including the closing quote or the next `${`
+  function readStringPart(startLine: number, startCol: number, startOffset: number): { lexeme: string; opensHole: boolean } {
+    let lexeme = "";
     while (pos < source.length && peek() !== '"') {
       if (peek() === "\n") {
-        throw new Error(`unterminated string at line ${startLine}, col ${startCol}`);
+        throw new RillSyntaxError("unterminated string", makeSpan(startLine, startCol, startOffset), Codes.UnterminatedString);
+      }
+      if (peek() === "\\" && peekNext() === "$" && source[pos + 2] === "{") {
+        lexeme += advance() + advance() + advance();
+        continue;
       }
-      value += advance();
+      if (peek() === "$" && peekNext() === "{") {
+        lexeme += advance() + advance();
+        return { lexeme, opensHole: true };
+      }
+      lexeme += advance();
     }
     if (pos >= source.length) {
-      throw new Error(`unterminated string at line ${startLine}, col ${startCol}`);
+      throw new RillSyntaxError("unterminated string", makeSpan(startLine, startCol, startOffset), Codes.UnterminatedString);
     }
-    value += advance(); // closing "
-    return value;
+    lexeme += advance(); // closing "
+    return { lexeme, opensHole: false };
   }
 
   function readNumber(): { lexeme: string; isFloat: boolean } {
@@ -124,10 +168,21 @@ export function lex(source: string): Token[] {
       continue;
     }
 
-    // Strings
+    // Strings: "text" or "text ${ ... } text", where the hole is lexed as ordinary tokens
     if (ch === '"') {
-      const lexeme = readString();
-      emit(TokenKind.String, lexeme, startLine, startCol, startOffset);
+      advance(); // opening "
+      const { lexeme, opensHole } = readStringPart(startLine, startCol, startOffset);
+      if (opensHole) holes.push(braceDepth);
+      emit(opensHole ? TokenKind.InterpStart : TokenKind.String, '"' + lexeme, startLine, startCol, startOffset);
+      continue;
+    }
+
+    // The brace closing an interpolation hole resumes the string
+    if (ch === "}" && holes.length > 0 && holes[holes.length - 1] === braceDepth) {
+      advance();
+      const { lexeme, opensHole } = readStringPart(startLine, startCol, startOffset);
+      if (!opensHole) holes.pop();
+      emit(opensHole ? TokenKind.InterpMiddle : TokenKind.InterpEnd, "}" + lexeme, startLine, startCol, startOffset);
       continue;
     }
 
@@ -176,11 +231,12 @@ export function lex(source: string): Token[] {
       case "<": emit(TokenKind.Lt, "<", startLine, startCol, startOffset); break;
       case ">": emit(TokenKind.Gt, ">", startLine, startCol, startOffset); break;
       case "!": emit(TokenKind.Bang, "!", startLine, startCol, startOffset); break;
+      case "|": emit(TokenKind.Bar, "|", startLine, startCol, startOffset); break;
       case "?": emit(TokenKind.Question, "?", startLine, startCol, startOffset); break;
       case "(": emit(TokenKind.LParen, "(", startLine, startCol, startOffset); break;
       case ")": emit(TokenKind.RParen, ")", startLine, startCol, startOffset); break;
-      case "{": emit(TokenKind.LBrace, "{", startLine, startCol, startOffset); break;
-      case "}": emit(TokenKind.RBrace, "}", startLine, startCol, startOffset); break;
+      case "{": braceDepth++; emit(TokenKind.LBrace, "{", startLine, startCol, startOffset); break;
+      case "}": braceDepth--; emit(TokenKind.RBrace, "}", startLine, startCol, startOffset); break;
       case "[": emit(TokenKind.LBracket, "[", startLine, startCol, startOffset); break;
       case "]": emit(TokenKind.RBracket, "]", startLine, startCol, startOffset); break;
       case ",": emit(TokenKind.Comma, ",", startLine, startCol, startOffset); break;
@@ -188,12 +244,15 @@ export function lex(source: string): Token[] {
       case ":": emit(TokenKind.Colon, ":", startLine, startCol, startOffset); break;
       case "_": emit(TokenKind.Underscore, "_", startLine, startCol, startOffset); break;
       default:
-        throw new Error(`Unexpected character '${ch}' at line ${startLine}, col ${startCol}`);
+        throw new RillSyntaxError(`Unexpected character '${ch}'`, makeSpan(startLine, startCol, startOffset), Codes.UnexpectedCharacter);
     }
   }
 
-  const endSpan = makeSpan(line, col, pos);
-  tokens.push({ kind: TokenKind.EOF, lexeme: "", span: endSpan });
+  if (holes.length > 0) {
+    throw new RillSyntaxError("unterminated string interpolation", makeSpan(line, col, pos), Codes.UnterminatedInterpolation);
+  }
+
+  emit(TokenKind.EOF, "", line, col, pos);
   return tokens;
 }
 
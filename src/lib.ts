@@ -1,7 +1,20 @@
 // Library API exports for embedding Rill as a rule engine
-export { evaluate } from './evaluator';
+export { evaluate, EvalOptions, StepHook, PipeEvent, CallHook } from './evaluator';
+export { RillLimitError, Limit, RillRuntimeError, RillAssertionError, StackFrame, RillSyntaxError, RillSyntaxErrors, DiagnosticError, toDiagnostic, toDiagnostics } from './errors';
+export { Diagnostic, Label, Severity, Codes, renderDiagnostic } from './diagnostics';
 export { createPrelude } from './prelude';
 export { lex } from './lexer';
-export { parse } from './parser';
-export { Value, prettyPrint } from './values';
-export { runSource } from './runner';
+export { parse, parseProgram, parseProgramWithErrors } from './parser';
+export { Value, Json, prettyPrint, valuesEqual, toRill, fromRill } from './values';
+export { runSource, runFile } from './runner';
+export { ModuleLoader } from './modules';
+export { RillEngine, compile, CompiledRule, CompileOptions } from './engine';
+export { Type, prettyType } from './types';
+export { LanguageServer, serveStdio } from './lsp';
+export { format } from './format';
+export { lint, lintFile } from './lint';
+export { Debugger, DebugIO, debugFile } from './debugger';
+export { formatPipeEvent, preview } from './trace';
+export { runTests, runTestFile, findTestFiles, testReport, TestOutcome, TestFileResult } from './testing';
+export { Coverage, FileCoverage, runCoverage, coverageSummary, lcov } from './coverage';
+export { Profiler, FunctionProfile, TraceEvent } from './profiler';
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { lint } from "./lint";
+import { RillSyntaxError } from "./errors";
+
+// Each finding as its code and the line and column it points at
+function findings(source: string): [string, number, number][] {
+  return lint(source).map((d) => [d.code, d.span!.start.line, d.span!.start.col]);
+}
+
+describe("lint", () => {
+  it("reports nothing for a clean program", () => {
+    expect(lint("let double = fn(x) -> x * 2\nlet y = 1 in double(y)")).toEqual([]);
+  });
+
+  it("reports unused local bindings", () => {
+    const [d] = lint('let f = fn(n) ->\n  let p1 = print("hi") in\n  n + 1\nf(1)');
+    expect(d).toMatchObject({ code: "W0501", severity: "warning", message: "Unused binding `p1`" });
+    expect(d.span!.start).toMatchObject({ line: 2, col: 7 });
+  });
+
+  it("reports unused bindings of a let rec", () => {
+    expect(findings("let rec even = fn(n) -> n == 0 and odd = fn(n) -> n == 1 in 1")).toEqual([
+      ["W0501", 1, 9],
+      ["W0501", 1, 36],
+    ]);
+  });
+
+  it("doesn't report unused top-level bindings, which importers can use", () => {
+    expect(lint("let unused = 1\n2")).toEqual([]);
+  });
+
+  it("reports unused parameters", () => {
+    expect(findings("let k = fn(a, b) -> a\nk(1, 2)")).toEqual([["W0502", 1, 15]]);
+  });
+
+  it("skips names starting with an underscore", () => {
+    expect(lint("let k = fn(a, _b) -> let _p = 1 in a\nk(1, 2)")).toEqual([]);
+    expect(lint("let tick = fn() -> 1\ntick()")).toEqual([]);
+  });
+
+  it("reports shadowed names with the binding they hide", () => {
+    const [d] = lint("let x = 1\nlet f = fn(x) -> x + 1\nf(x)");
+    expect(d.code).toBe("W0503");
+    expect(d.span!.start).toMatchObject({ line: 2, col: 12 });
+    expect(d.labels).toEqual([{ span: expect.objectContaining({ start: expect.objectContaining({ line: 1, col: 5 }) }), message: "`x` is first bound here" }]);
+  });
+
+  it("reports shadowing by match patterns and catch clauses", () => {
+    const source = 'let e = "outer"\nlet r = Ok(1)\nmatch r { Ok(r) -> r, Err(m) -> 0 } |> to_string |> catch e -> e';
+    expect(findings(source).map(([code, line]) => [code, line])).toEqual([
+      ["W0503", 3],
+      ["W0503", 3],
+    ]);
+  });
+
+  it("doesn't report builtins shadowed by local names", () => {
+    expect(lint("let f = fn(map) -> map + 1\nf(1)")).toEqual([]);
+  });
+
+  it("reports top-level bindings that hide builtins", () => {
+    const source = "let sum = fn(xs) -> fold(0, fn(a, b) -> a + b, xs)\nlet rec find = fn(x) -> x\nlet _any = 1\nsum([find(1)])";
+    expect(findings(source)).toEqual([["W0506", 1, 5], ["W0506", 2, 9]]);
+    expect(lint(source)[0].message).toBe("`sum` hides the prelude function of that name");
+  });
+
+  it("reports arms after a catch-all arm", () => {
+    const source = "let f = fn(x) -> match x {\n  0 -> 1,\n  _ -> 2,\n  1 -> 3,\n  n -> n\n}\nf(1)";
+    const found = lint(source);
+    expect(found.map((d) => [d.code, d.span!.start.line])).toEqual([
+      ["W0504", 4],
+      ["W0504", 5],
+    ]);
+    expect(found[0].labels[0]).toMatchObject({ message: "this arm matches every value", span: { start: { line: 3 } } });
+  });
+
+  it("treats tuples of catch-all patterns as catch-all", () => {
+    expect(findings("let f = fn(p) -> match p { (a, b) -> a + b, (0, 0) -> 0 }\nf((1, 2))")).toEqual([["W0504", 1, 45]]);
+  });
+
+  it("reports `?` outside any Result context", () => {
+    expect(findings("let x = head([1])?\nx")).toEqual([["W0505", 1, 9]]);
+    expect(findings("let first = fn(xs) -> head(xs)? + 1\nfirst([1])")).toEqual([["W0505", 1, 23]]);
+  });
+
+  it("accepts `?` in functions returning a Result and before a catch", () => {
+    expect(lint("let first = fn(xs) -> Ok(head(xs)? + 1)\nfirst([1])")).toEqual([]);
+    expect(lint("let x = head([1])? |> catch e -> 0\nx")).toEqual([]);
+    expect(lint("let x = [1] |> head? |> fn(n) -> n + 1 |> catch e -> 0\nx")).toEqual([]);
+  });
+
+  it("can be told to allow a rule on a line or in a whole file", () => {
+    const source = [
+      "let f = fn(x) ->",
+      "  -- lint: allow W0501",
+      "  let a = 1 in",
+      "  let b = 2 in -- lint: allow W0501, W0503",
+      "  let c = 3 in",
+      "  x",
+      "f(1)",
+    ].join("\n");
+    expect(findings(source)).toEqual([["W0501", 5, 7]]);
+    expect(lint(`-- lint: allow-file W0501\n${source}`)).toEqual([]);
+  });
+
+  it("sets the file on its diagnostics", () => {
+    expect(lint("let k = fn(a) -> 1\nk(1)", { file: "/tmp/main.lv" })[0].file).toBe("/tmp/main.lv");
+  });
+
+  it("checks imports without running them", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rill-lint-"));
+    fs.writeFileSync(path.join(dir, "m.lv"), 'let hello = print("hello from module")');
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      const source = 'import "./m.lv" as m\nlet f = fn(x) -> m.hello\nf(1)';
+      expect(lint(source, { file: path.join(dir, "main.lv") }).map((d) => d.code)).toEqual(["W0502"]);
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it("reports syntax errors instead of linting", () => {
+    expect(() => lint("let x = [1, 2 3]")).toThrow(RillSyntaxError);
+  });
+});
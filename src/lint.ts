@@ -0,0 +1,289 @@
+import * as fs from "node:fs";
+import { Binding, Decl, Expr, Fn, Match, Pattern, Program, childExprs, identPats } from "./ast";
+import { lex } from "./lexer";
+import { parseProgram } from "./parser";
+import { InferContext, inferProgram } from "./typechecker";
+import { applySubst } from "./unify";
+import { createPreludeTypes } from "./prelude";
+import { ModuleLoader, withEntries } from "./modules";
+import { toDiagnostics } from "./errors";
+import { Codes, Diagnostic, Label, fileNotReadable, renderDiagnostic } from "./diagnostics";
+import { Comment, Token } from "./token";
+import { Span } from "./span";
+
+interface LintOptions {
+  // The file the source was read from; imports resolve relative to it
+  // (or to the working directory when absent)
+  file?: string;
+  loader?: ModuleLoader;
+}
+
+interface LintResult {
+  diagnostics: Diagnostic[];
+  // The diagnostics, rendered for a terminal
+  report: string;
+}
+
+// A name in scope, and whether anything has referred to it yet
+interface Name {
+  name: string;
+  span: Span;
+  used: boolean;
+}
+
+type Scope = Map<string, Name>;
+
+// `-- lint: allow W0501` turns the listed rules off for the next line, or for
+// its own line when it follows code; `-- lint: allow-file W0501` for the file
+const ALLOW = /^--\s*lint:\s*allow(-file)?\s+(.*)$/;
+
+// Reports likely mistakes in a program that still type checks: unused local
+// bindings and parameters, shadowed names and builtins, unreachable match arms
+// and `?` outside a Result context. Throws the syntax errors of source that doesn't parse.
+export function lint(source: string, options: LintOptions = {}): Diagnostic[] {
+  const tokens = lex(source, { comments: true });
+  const program = parseProgram(tokens);
+  const linter = new Linter(check(source, program, options));
+  linter.program(program);
+  const allowed = allowances(source, tokens);
+  return linter.diagnostics
+    .filter((d) => !allowed.file.has(d.code) && !allowed.lines.get(d.span!.start.line)?.has(d.code))
+    .sort((a, b) => a.span!.start.offset - b.span!.start.offset)
+    .map((d) => (options.file ? { ...d, file: options.file } : d));
+}
+
+export function lintFile(file: string, options: LintOptions = {}): LintResult {
+  let source: string;
+  try {
+    source = fs.readFileSync(file, "utf-8");
+  } catch (e) {
+    const diagnostic = fileNotReadable(file, e);
+    return { diagnostics: [diagnostic], report: diagnostic.message };
+  }
+  let diagnostics: Diagnostic[];
+  try {
+    diagnostics = lint(source, { ...options, file });
+  } catch (e) {
+    diagnostics = toDiagnostics(e).map((d) => ({ ...d, file: d.file ?? file }));
+  }
+  return { diagnostics, report: diagnostics.map((d) => renderDiagnostic(d, source)).join("\n\n") };
+}
+
+// The program's types, for the rules that need them, or null when it doesn't check
+function check(source: string, program: Program, options: LintOptions): InferContext | null {
+  try {
+    const loader = options.loader ?? ModuleLoader.typesOnly();
+    const imports = options.file ? loader.linkFile(program, options.file) : loader.link(program, process.cwd());
+    const ctx = new InferContext(source, true);
+    inferProgram(program, withEntries(createPreludeTypes(), imports.types), ctx);
+    return ctx;
+  } catch {
+    return null;
+  }
+}
+
+function allowances(source: string, tokens: Token[]): { file: Set<string>; lines: Map<number, Set<string>> } {
+  const file = new Set<string>();
+  const lines = new Map<number, Set<string>>();
+  for (const token of tokens) {
+    for (const comment of token.comments ?? []) {
+      const match = ALLOW.exec(comment.text);
+      if (!match) continue;
+      const codes = match[2].split(/[\s,]+/).filter((c) => c !== "");
+      if (match[1]) {
+        codes.forEach((c) => file.add(c));
+        continue;
+      }
+      const line = ownLine(source, comment) ? token.span.start.line : comment.span.start.line;
+      const set = lines.get(line) ?? new Set();
+      codes.forEach((c) => set.add(c));
+      lines.set(line, set);
+    }
+  }
+  return { file, lines };
+}
+
+function ownLine(source: string, comment: Comment): boolean {
+  const lineStart = source.lastIndexOf("\n", comment.span.start.offset - 1) + 1;
+  return source.slice(lineStart, comment.span.start.offset).trim() === "";
+}
+
+class Linter {
+  readonly diagnostics: Diagnostic[] = [];
+  private builtins = new Set(createPreludeTypes().keys());
+
+  constructor(private types: InferContext | null) {}
+
+  program(program: Program): void {
+    let scope: Scope = new Map();
+    for (const decl of program.decls) scope = this.decl(decl, scope);
+    if (program.body) this.expr(program.body, scope, false);
+  }
+
+  // Top-level bindings are exported to importing files, so they are never reported unused
+  private decl(decl: Decl, scope: Scope): Scope {
+    switch (decl.kind) {
+      case "LetDecl":
+        this.expr(decl.value, scope, false);
+        this.hidesBuiltin(decl.name, decl.nameSpan);
+        return this.bind(scope, decl.name, decl.nameSpan).scope;
+      case "LetRecDecl": {
+        decl.bindings.forEach((b) => this.hidesBuiltin(b.name, b.nameSpan));
+        const inner = this.bindGroup(decl.bindings, scope).scope;
+        for (const b of decl.bindings) this.expr(b.value, inner, false);
+        return inner;
+      }
+      case "TypeDef":
+        return scope;
+      case "ImportDecl":
+        return this.bind(scope, decl.name, decl.span).scope;
+      // An Err returned early by `?` fails the test
+      case "TestDecl":
+        this.expr(decl.body, scope, true);
+        return scope;
+    }
+  }
+
+  // `handled` is whether an Err returned early by `?` here would be caught
+  // or returned as the result of the enclosing function
+  private expr(expr: Expr, scope: Scope, handled: boolean): void {
+    switch (expr.kind) {
+      case "Ident": {
+        const name = scope.get(expr.name);
+        if (name) name.used = true;
+        return;
+      }
+      case "Let": {
+        this.expr(expr.value, scope, handled);
+        const { scope: inner, name } = this.bind(scope, expr.name, expr.nameSpan);
+        this.expr(expr.body, inner, handled);
+        this.checkUsed(name, Codes.UnusedBinding, "binding");
+        return;
+      }
+      case "LetRec": {
+        const { scope: inner, names } = this.bindGroup(expr.bindings, scope);
+        for (const b of expr.bindings) this.expr(b.value, inner, handled);
+        this.expr(expr.body, inner, handled);
+        names.forEach((name) => this.checkUsed(name, Codes.UnusedBinding, "binding"));
+        return;
+      }
+      case "Fn": {
+        const { scope: inner, name } = this.bind(scope, expr.param, expr.paramSpan);
+        this.expr(expr.body, inner, handled || this.returnsResult(expr));
+        this.checkUsed(name, Codes.UnusedParameter, "parameter");
+        return;
+      }
+      case "Match":
+        this.match(expr, scope, handled);
+        return;
+      case "Pipe":
+        if (expr.right.kind === "Catch") {
+          this.expr(expr.left, scope, true);
+          this.expr(expr.right, scope, handled);
+          return;
+        }
+        break;
+      case "Try":
+        if (!handled) {
+          this.report(Codes.TryOutsideResult, "`?` is used outside a Result context", expr.span, [], [
+            "an Err here skips to the nearest enclosing `catch`, or ends the program",
+            "handle it with `|> catch e -> ...`, or use it in a function that returns a Result",
+          ]);
+        }
+        break;
+      case "Catch": {
+        // The placeholder `expr` of a piped catch is filled in by the pipe
+        const inner = this.bind(scope, expr.errorName, expr.span).scope;
+        this.expr(expr.fallback, inner, handled);
+        return;
+      }
+      case "Import": {
+        const inner = this.bind(scope, expr.name, expr.span).scope;
+        this.expr(expr.body, inner, handled);
+        return;
+      }
+    }
+    for (const child of childExprs(expr)) this.expr(child, scope, handled);
+  }
+
+  private match(expr: Match, scope: Scope, handled: boolean): void {
+    this.expr(expr.subject, scope, handled);
+    const catchAll = expr.cases.find((c) => irrefutable(c.pattern));
+    for (const c of expr.cases) {
+      if (catchAll && c !== catchAll && c.span.start.offset > catchAll.span.start.offset) {
+        this.report(Codes.UnreachableArm, "This match arm is unreachable", c.span, [
+          { span: catchAll.span, message: "this arm matches every value" },
+        ]);
+      }
+      let inner = scope;
+      for (const p of identPats(c.pattern)) inner = this.bind(inner, p.name, p.span).scope;
+      this.expr(c.body, inner, handled);
+    }
+  }
+
+  // Whether the function is known to return a Result, or might; without
+  // types, any function might
+  private returnsResult(fn: Fn): boolean {
+    const type = this.types?.types?.get(fn);
+    if (!this.types || !type) return true;
+    const resolved = applySubst(this.types.subst, type);
+    return resolved.kind !== "TFn" || resolved.ret.kind === "TResult" || resolved.ret.kind === "TVar";
+  }
+
+  // Reports a top-level binding hiding a prelude function for the rest of the
+  // file. Local names, like a parameter called `map`, are left alone.
+  private hidesBuiltin(name: string, span: Span): void {
+    if (!this.builtins.has(name) || name.startsWith("_")) return;
+    this.report(Codes.ShadowedBuiltin, `\`${name}\` hides the prelude function of that name`, span, [], [
+      `the builtin \`${name}\` can't be used in the rest of this file`,
+    ]);
+  }
+
+  // Adds `name` to a copy of `scope`, reporting the binding it shadows
+  private bind(scope: Scope, name: string, span: Span): { scope: Scope; name: Name } {
+    const shadowed = scope.get(name);
+    if (shadowed && !name.startsWith("_")) {
+      this.report(Codes.ShadowedName, `\`${name}\` shadows an earlier binding`, span, [
+        { span: shadowed.span, message: `\`${name}\` is first bound here` },
+      ], ["the earlier binding can't be referred to while this one is in scope"]);
+    }
+    const binding = { name, span, used: false };
+    return { scope: new Map(scope).set(name, binding), name: binding };
+  }
+
+  private bindGroup(bindings: Binding[], scope: Scope): { scope: Scope; names: Name[] } {
+    const names: Name[] = [];
+    for (const b of bindings) {
+      const bound = this.bind(scope, b.name, b.nameSpan);
+      scope = bound.scope;
+      names.push(bound.name);
+    }
+    return { scope, names };
+  }
+
+  private checkUsed(name: Name, code: string, what: string): void {
+    if (name.used || name.name.startsWith("_")) return;
+    this.report(code, `Unused ${what} \`${name.name}\``, name.span, [], [
+      `prefix it with an underscore, as \`_${name.name}\`, if that is intended`,
+    ]);
+  }
+
+  private report(code: string, message: string, span: Span, labels: Label[] = [], notes: string[] = []): void {
+    this.diagnostics.push({ code, severity: "warning", message, span, labels, notes });
+  }
+}
+
+// Whether the pattern matches every value of its type
+function irrefutable(pattern: Pattern): boolean {
+  switch (pattern.kind) {
+    case "WildcardPat":
+    case "IdentPat":
+      return true;
+    case "TuplePat":
+      return pattern.elements.every(irrefutable);
+    case "RecordPat":
+      return pattern.fields.every((f) => irrefutable(f.pattern));
+    default:
+      return false;
+  }
+}
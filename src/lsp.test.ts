@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PassThrough } from "node:stream";
+import { pathToFileURL } from "node:url";
+import { CompletionItem, Hover, LanguageServer, Location, Message, PublishDiagnosticsParams, serveStdio } from "./lsp";
+
+const URI = "untitled:main.lv";
+
+const SOURCE = [
+  "let double = fn(x) -> x * 2",
+  "let describe = fn(r) -> match r {",
+  "  Ok(n) -> double(n),",
+  "  Err(e) -> 0",
+  "}",
+  "describe(Ok(4))",
+].join("\n");
+
+// A server driven in-process, collecting everything it sends
+function connect() {
+  const sent: Message[] = [];
+  const exits: number[] = [];
+  const server = new LanguageServer((m) => sent.push(m), (code) => exits.push(code));
+  let nextId = 1;
+  const request = (method: string, params: unknown = {}): Message => {
+    const id = nextId++;
+    server.handle({ jsonrpc: "2.0", id, method, params });
+    return sent.find((m) => m.id === id)!;
+  };
+  // The result of a request, taken to have the shape the method answers with
+  const result = <T>(method: string, params: unknown = {}): T => request(method, params).result as T;
+  const notify = (method: string, params: unknown = {}) => server.handle({ jsonrpc: "2.0", method, params });
+  const diagnostics = () => sent.filter((m) => m.method === "textDocument/publishDiagnostics").map((m) => m.params as PublishDiagnosticsParams);
+  const open = (text: string) => notify("textDocument/didOpen", { textDocument: { uri: URI, languageId: "rill", version: 1, text } });
+  const at = (line: number, character: number) => ({ textDocument: { uri: URI }, position: { line, character } });
+  return { sent, exits, request, result, notify, diagnostics, open, at };
+}
+
+describe("LanguageServer", () => {
+  it("advertises its capabilities", () => {
+    const { result } = connect();
+    const { capabilities } = result<{ capabilities: unknown }>("initialize", { capabilities: {} });
+    expect(capabilities).toEqual({ textDocumentSync: 1, hoverProvider: true, definitionProvider: true, completionProvider: {} });
+  });
+
+  it("publishes no diagnostics for a valid document", () => {
+    const { open, diagnostics } = connect();
+    open(SOURCE);
+    expect(diagnostics()).toEqual([{ uri: URI, diagnostics: [] }]);
+  });
+
+  it("publishes type errors with their code, range and labels", () => {
+    const { open, diagnostics } = connect();
+    open('let x = 1\nx + "a"');
+    const [d] = diagnostics()[0].diagnostics;
+    expect(d).toMatchObject({
+      code: "E0201",
+      severity: 1,
+      source: "rill",
+      range: { start: { line: 1, character: 0 }, end: { line: 1, character: 7 } },
+    });
+    expect(d.relatedInformation.map((r) => r.message)).toContain("this is String");
+  });
+
+  it("publishes every syntax error", () => {
+    const { open, diagnostics } = connect();
+    open("let xs = [1, 2 3]\nlet r = { a: 1, b 2 }\nr");
+    const published = diagnostics()[0].diagnostics;
+    expect(published.map((d) => [d.code, d.range.start])).toEqual([
+      ["E0101", { line: 0, character: 15 }],
+      ["E0101", { line: 1, character: 18 }],
+    ]);
+  });
+
+  it("republishes diagnostics on change and clears them on close", () => {
+    const { open, notify, diagnostics } = connect();
+    open("1 + true");
+    notify("textDocument/didChange", { textDocument: { uri: URI, version: 2 }, contentChanges: [{ text: "1 + 2" }] });
+    notify("textDocument/didClose", { textDocument: { uri: URI } });
+    expect(diagnostics().map((p) => p.diagnostics.length)).toEqual([1, 0, 0]);
+  });
+
+  it("shows the type of a name on hover", () => {
+    const { open, result, request, at } = connect();
+    open(SOURCE);
+    expect(request("textDocument/hover", at(0, 5)).result).toEqual({
+      contents: { kind: "markdown", value: "```rill\ndouble: Int -> Int\n```" },
+      range: { start: { line: 0, character: 4 }, end: { line: 0, character: 10 } },
+    });
+    expect(result<Hover>("textDocument/hover", at(2, 5)).contents.value).toContain("n: Int");
+    expect(result<Hover>("textDocument/hover", at(5, 1)).contents.value).toContain("describe: Result(Int, String) -> Int");
+  });
+
+  it("shows the type of the innermost expression on hover", () => {
+    const { open, result, request, at } = connect();
+    open("let s = to_string(1 + 2)");
+    expect(result<Hover>("textDocument/hover", at(0, 20)).contents.value).toBe("```rill\nInt\n```");
+    expect(request("textDocument/hover", at(0, 3)).result).toBeNull();
+  });
+
+  it("jumps from a use to its let binding", () => {
+    const { open, request, at } = connect();
+    open(SOURCE);
+    expect(request("textDocument/definition", at(2, 12)).result).toEqual({
+      uri: URI,
+      range: { start: { line: 0, character: 4 }, end: { line: 0, character: 10 } },
+    });
+  });
+
+  it("jumps from a use to the match pattern that binds it", () => {
+    const { open, request, at } = connect();
+    open(SOURCE);
+    expect(request("textDocument/definition", at(2, 19)).result).toEqual({
+      uri: URI,
+      range: { start: { line: 2, character: 5 }, end: { line: 2, character: 6 } },
+    });
+  });
+
+  it("jumps to the nearest of shadowed bindings", () => {
+    const { open, result, at } = connect();
+    open("let x = 1\nlet f = fn(x) -> x\nx");
+    expect(result<Location>("textDocument/definition", at(1, 17)).range.start).toEqual({ line: 1, character: 11 });
+    expect(result<Location>("textDocument/definition", at(2, 0)).range.start).toEqual({ line: 0, character: 4 });
+  });
+
+  it("has no definition for builtins", () => {
+    const { open, request, at } = connect();
+    open("length([1])");
+    expect(request("textDocument/definition", at(0, 2)).result).toBeNull();
+  });
+
+  it("completes the bindings in scope and the prelude", () => {
+    const { open, result, at } = connect();
+    open(SOURCE);
+    const items = result<CompletionItem[]>("textDocument/completion", at(2, 18));
+    const labels = items.map((i) => i.label);
+    expect(labels).toEqual(expect.arrayContaining(["double", "r", "n", "map", "to_string"]));
+    expect(labels).not.toContain("e");
+    expect(labels).not.toContain("describe");
+    expect(items.find((i) => i.label === "double")).toEqual({ label: "double", kind: 3, detail: "Int -> Int" });
+    expect(items.find((i) => i.label === "n")).toEqual({ label: "n", kind: 6, detail: "Int" });
+  });
+
+  it("completes top-level bindings after the last declaration", () => {
+    const { open, result, at } = connect();
+    open("let total = 3\n");
+    const labels = result<CompletionItem[]>("textDocument/completion", at(1, 0)).map((i) => i.label);
+    expect(labels).toContain("total");
+  });
+
+  it("completes an import's name but not its path", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rill-lsp-"));
+    fs.writeFileSync(path.join(dir, "helpers.lv"), "let n = 1");
+    const { notify, result } = connect();
+    const uri = pathToFileURL(path.join(dir, "main.lv")).href;
+    notify("textDocument/didOpen", { textDocument: { uri, languageId: "rill", version: 1, text: 'import "./helpers.lv" as h\nh.n' } });
+    const items = result<CompletionItem[]>("textDocument/completion", { textDocument: { uri }, position: { line: 1, character: 0 } });
+    const labels = items.map((i) => i.label);
+    expect(labels).toContain("h");
+    expect(labels).not.toContain("./helpers.lv");
+  });
+
+  it("still answers hover in a document with syntax errors", () => {
+    const { open, result, at } = connect();
+    open("let name = \"rill\"\nlet xs = [1, 2 3]\nname");
+    expect(result<Hover>("textDocument/hover", at(2, 1)).contents.value).toContain("name: String");
+  });
+
+  it("rejects unknown methods, params that aren't objects and documents that aren't open", () => {
+    const { request, at } = connect();
+    expect(request("textDocument/rename", {}).error?.code).toBe(-32601);
+    expect(request("toString", {}).error?.code).toBe(-32601);
+    expect(request("textDocument/hover", 42).error?.code).toBe(-32602);
+    expect(request("textDocument/hover", at(0, 0)).error).toEqual({ code: -32600, message: `Document not open: ${URI}` });
+  });
+
+  it("exits cleanly only after a shutdown request", () => {
+    const first = connect();
+    first.notify("exit");
+    expect(first.exits).toEqual([1]);
+
+    const second = connect();
+    expect(second.request("shutdown").result).toBeNull();
+    second.notify("exit");
+    expect(second.exits).toEqual([0]);
+  });
+});
+
+describe("serveStdio", () => {
+  it("reads and writes messages framed by Content-Length", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    serveStdio(input, output, () => {});
+
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+    const framed = `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    // Split across chunks, as a pipe may deliver it
+    input.write(framed.slice(0, 10));
+    input.write(framed.slice(10));
+
+    const written = String(await new Promise((resolve) => output.once("data", resolve)));
+    const [header, response] = written.split("\r\n\r\n");
+    expect(header).toBe(`Content-Length: ${Buffer.byteLength(response)}`);
+    expect(JSON.parse(response)).toMatchObject({ id: 1, result: { capabilities: { hoverProvider: true } } });
+  });
+});
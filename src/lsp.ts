@@ -0,0 +1,286 @@
+import { fileURLToPath } from "node:url";
+import { Analysis } from "./analysis";
+import { Diagnostic, Severity } from "./diagnostics";
+import { Span } from "./span";
+import { prettyType } from "./types";
+
+// A JSON-RPC 2.0 request, response or notification
+export interface Message {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// LSP positions and ranges are zero-based, counting UTF-16 code units
+// along the line, the same units as Span columns
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface Hover {
+  contents: { kind: "markdown"; value: string };
+  range: Range;
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: number;
+  detail?: string;
+}
+
+export interface LspDiagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: "rill";
+  message: string;
+  relatedInformation: { location: Location; message: string }[];
+}
+
+// The params of a textDocument/publishDiagnostics notification
+export interface PublishDiagnosticsParams {
+  uri: string;
+  diagnostics: LspDiagnostic[];
+}
+
+interface TextDocumentIdentifier {
+  uri: string;
+}
+
+interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+// The params each supported method takes, as sent by the client
+interface Params {
+  initialize: unknown;
+  initialized: unknown;
+  shutdown: unknown;
+  exit: unknown;
+  "textDocument/didOpen": { textDocument: TextDocumentIdentifier & { text: string } };
+  "textDocument/didChange": { textDocument: TextDocumentIdentifier; contentChanges: { text: string }[] };
+  "textDocument/didClose": { textDocument: TextDocumentIdentifier };
+  "textDocument/hover": TextDocumentPositionParams;
+  "textDocument/definition": TextDocumentPositionParams;
+  "textDocument/completion": TextDocumentPositionParams;
+}
+
+const ErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  InvalidRequest: -32600,
+  InvalidParams: -32602,
+} as const;
+
+const SEVERITIES: Record<Severity, number> = { error: 1, warning: 2, info: 3 };
+
+const CompletionItemKind = { Function: 3, Variable: 6 } as const;
+
+class ResponseError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+interface Document {
+  text: string;
+  analysis: Analysis;
+}
+
+// A language server for .lv files. Feed it client messages with `handle`;
+// responses and notifications go out through `send`.
+export class LanguageServer {
+  private documents = new Map<string, Document>();
+  private shuttingDown = false;
+
+  private methods: { [M in keyof Params]: (params: Params[M]) => unknown } = {
+    initialize: () => ({
+      capabilities: {
+        // Clients send the whole text on every change
+        textDocumentSync: 1,
+        hoverProvider: true,
+        definitionProvider: true,
+        completionProvider: {},
+      },
+      serverInfo: { name: "rill" },
+    }),
+    initialized: () => {},
+    shutdown: () => {
+      this.shuttingDown = true;
+      return null;
+    },
+    exit: () => this.exit(this.shuttingDown ? 0 : 1),
+    "textDocument/didOpen": ({ textDocument }) => this.update(textDocument.uri, textDocument.text),
+    "textDocument/didChange": ({ textDocument, contentChanges }) => {
+      this.update(textDocument.uri, contentChanges[contentChanges.length - 1].text);
+    },
+    "textDocument/didClose": ({ textDocument }) => {
+      this.documents.delete(textDocument.uri);
+      this.publishDiagnostics({ uri: textDocument.uri, diagnostics: [] });
+    },
+    "textDocument/hover": ({ textDocument, position }): Hover | null => {
+      const { text, analysis } = this.document(textDocument.uri);
+      const info = analysis.typeAt(offsetAt(text, position));
+      if (!info) return null;
+      return { contents: { kind: "markdown", value: "```rill\n" + info.label + "\n```" }, range: toRange(info.span) };
+    },
+    "textDocument/definition": ({ textDocument, position }): Location | null => {
+      const { text, analysis } = this.document(textDocument.uri);
+      const definition = analysis.definitionAt(offsetAt(text, position));
+      return definition && { uri: textDocument.uri, range: toRange(definition.span) };
+    },
+    "textDocument/completion": ({ textDocument, position }): CompletionItem[] => {
+      const { text, analysis } = this.document(textDocument.uri);
+      return analysis.completionsAt(offsetAt(text, position)).map(({ name, type }) => ({
+        label: name,
+        kind: type?.kind === "TFn" ? CompletionItemKind.Function : CompletionItemKind.Variable,
+        ...(type && { detail: prettyType(type) }),
+      }));
+    },
+  };
+
+  constructor(
+    private send: (message: Message) => void,
+    private exit: (code: number) => void = () => {},
+  ) {}
+
+  handle(message: Message): void {
+    // Responses to requests; the server never sends any
+    if (message.method === undefined) return;
+    const isRequest = message.id !== undefined;
+    if (!Object.hasOwn(this.methods, message.method)) {
+      if (isRequest) this.reply(message, { error: { code: ErrorCodes.MethodNotFound, message: `Unknown method: ${message.method}` } });
+      return;
+    }
+    // Params are trusted to match the method once they are known to be an object
+    const method = this.methods[message.method as keyof Params] as (params: unknown) => unknown;
+    try {
+      const params = message.params ?? {};
+      if (typeof params !== "object" || params === null) {
+        throw new ResponseError(ErrorCodes.InvalidParams, "Expected params to be an object or array");
+      }
+      const result = method(params);
+      if (isRequest) this.reply(message, { result: result ?? null });
+    } catch (e) {
+      if (!isRequest) return;
+      const code = e instanceof ResponseError ? e.code : ErrorCodes.InternalError;
+      this.reply(message, { error: { code, message: e instanceof Error ? e.message : String(e) } });
+    }
+  }
+
+  private reply(request: Message, response: Pick<Message, "result" | "error">): void {
+    this.send({ jsonrpc: "2.0", id: request.id, ...response });
+  }
+
+  private notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: "2.0", method, params });
+  }
+
+  private publishDiagnostics(params: PublishDiagnosticsParams): void {
+    this.notify("textDocument/publishDiagnostics", params);
+  }
+
+  private document(uri: string): Document {
+    const document = this.documents.get(uri);
+    if (!document) throw new ResponseError(ErrorCodes.InvalidRequest, `Document not open: ${uri}`);
+    return document;
+  }
+
+  private update(uri: string, text: string): void {
+    const analysis = new Analysis(text, uri.startsWith("file:") ? fileURLToPath(uri) : undefined);
+    this.documents.set(uri, { text, analysis });
+    this.publishDiagnostics({ uri, diagnostics: analysis.diagnostics.map((d) => toLspDiagnostic(d, uri)) });
+  }
+}
+
+// Serves LSP over a pair of streams, reading and writing messages framed by
+// Content-Length headers
+export function serveStdio(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  exit: (code: number) => void = (code) => process.exit(code),
+): LanguageServer {
+  const server = new LanguageServer((message) => output.write(frame(message)), exit);
+
+  let buffer = Buffer.alloc(0);
+  input.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) return;
+      const length = /Content-Length: *(\d+)/i.exec(buffer.subarray(0, headerEnd).toString("ascii"));
+      const start = headerEnd + 4;
+      if (!length) {
+        buffer = buffer.subarray(start);
+        continue;
+      }
+      const end = start + Number(length[1]);
+      if (buffer.length < end) return;
+      const body = buffer.subarray(start, end).toString("utf-8");
+      buffer = buffer.subarray(end);
+      let message: Message;
+      try {
+        message = JSON.parse(body);
+      } catch (e: any) {
+        output.write(frame({ jsonrpc: "2.0", id: null, error: { code: ErrorCodes.ParseError, message: e.message } }));
+        continue;
+      }
+      server.handle(message);
+    }
+  });
+  input.on("end", () => exit(1));
+  return server;
+}
+
+function frame(message: Message): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, "utf-8")}\r\n\r\n${body}`;
+}
+
+function toRange(span: Span | null): Range {
+  if (!span) return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+  return {
+    start: { line: span.start.line - 1, character: span.start.col - 1 },
+    end: { line: span.end.line - 1, character: span.end.col - 1 },
+  };
+}
+
+function offsetAt(text: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const newline = text.indexOf("\n", offset);
+    if (newline < 0) return text.length;
+    offset = newline + 1;
+  }
+  return Math.min(offset + position.character, text.length);
+}
+
+function toLspDiagnostic(d: Diagnostic, uri: string): LspDiagnostic {
+  return {
+    range: toRange(d.span),
+    severity: SEVERITIES[d.severity],
+    code: d.code,
+    source: "rill",
+    message: [d.message, ...d.notes.map((note) => `note: ${note}`)].join("\n"),
+    relatedInformation: d.labels.map((l) => ({ location: { uri, range: toRange(l.span) }, message: l.message })),
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import * as path from "node:path";
+import { ModuleLoader } from "./modules";
+import { runSource } from "./runner";
+import { prettyPrint } from "./values";
+import { prettyType } from "./types";
+
+function memoryLoader(files: Record<string, string>, reads: string[] = []): ModuleLoader {
+  return new ModuleLoader((file) => {
+    reads.push(file);
+    const source = files[path.basename(file)];
+    if (source === undefined) throw new Error(`ENOENT: ${file}`);
+    return source;
+  });
+}
+
+const HELPERS = `
+  let double = fn(x) -> x * 2
+  let greet = fn(name) -> "Hello, " ++ name
+`;
+
+describe("Modules", () => {
+  it("exposes a module's top-level bindings as a record", () => {
+    const module = memoryLoader({ "helpers.lv": HELPERS }).load("/src/helpers.lv");
+    expect(prettyType(module.type.type)).toBe("{ double: Int -> Int, greet: String -> String }");
+    expect(prettyPrint(module.value!)).toBe("{ double: <fn>, greet: <fn> }");
+  });
+
+  it("runs a program that imports a module", () => {
+    const result = runSource(`
+      import "./helpers.lv" as h
+      h.greet("Rill") ++ " " ++ to_string(h.double(21))
+    `, { file: "/src/main.lv", loader: memoryLoader({ "helpers.lv": HELPERS }) });
+    expect(result.output).toBe('"Hello, Rill 42"');
+  });
+
+  it("type checks uses of imported bindings", () => {
+    const result = runSource(`import "./helpers.lv" as h in h.double("x")`, {
+      file: "/src/main.lv",
+      loader: memoryLoader({ "helpers.lv": HELPERS }),
+    });
+    expect(result.error).toContain("Cannot unify");
+  });
+
+  it("keeps imported functions polymorphic", () => {
+    const result = runSource(`import "./id.lv" as m in (m.id(1), m.id("a"))`, {
+      file: "/src/main.lv",
+      loader: memoryLoader({ "id.lv": "let id = fn(x) -> x" }),
+    });
+    expect(result.output).toBe('(1, "a")');
+  });
+
+  it("resolves imports relative to the importing file", () => {
+    const reads: string[] = [];
+    const loader = memoryLoader({
+      "a.lv": `import "../lib/b.lv" as b let value = b.value + 1`,
+      "b.lv": "let value = 41",
+    }, reads);
+    const result = runSource(`import "./pkg/a.lv" as a in a.value`, { file: "/src/main.lv", loader });
+    expect(result.output).toBe("42");
+    expect(reads).toEqual([path.resolve("/src/pkg/a.lv"), path.resolve("/src/lib/b.lv")]);
+  });
+
+  it("parses and evaluates each module once", () => {
+    const reads: string[] = [];
+    const loader = memoryLoader({
+      "a.lv": `import "./shared.lv" as s let x = s.n`,
+      "shared.lv": "let n = 1",
+    }, reads);
+    const result = runSource(`
+      import "./a.lv" as a
+      import "./shared.lv" as s
+      a.x + s.n
+    `, { file: "/src/main.lv", loader });
+    expect(result.output).toBe("2");
+    expect(reads.filter((f) => f.endsWith("shared.lv"))).toHaveLength(1);
+  });
+
+  it("detects import cycles", () => {
+    const loader = memoryLoader({
+      "a.lv": `import "./b.lv" as b let x = 1`,
+      "b.lv": `import "./a.lv" as a let y = 2`,
+    });
+    expect(() => loader.load("/src/a.lv")).toThrow("Import cycle: a.lv -> b.lv -> a.lv");
+  });
+
+  it("exports only top-level declarations", () => {
+    const module = memoryLoader({ "m.lv": "let a = 1\nlet b = let hidden = 2 in hidden\nb + 1" }).load("/src/m.lv");
+    expect(prettyPrint(module.value!)).toBe("{ a: 1, b: 2 }");
+  });
+
+  it("infers modules' types without running them when loading types only", () => {
+    const files: Record<string, string> = { "m.lv": "let boom = assert(false)\nlet one = 1" };
+    const module = ModuleLoader.typesOnly((file) => files[path.basename(file)]).load("/src/m.lv");
+    expect(prettyType(module.type.type)).toBe("{ boom: Unit, one: Int }");
+    expect(module.value).toBeNull();
+    expect(() => memoryLoader(files).load("/src/m.lv")).toThrow("Assertion failed");
+  });
+
+  it("detects cycles through the entry file", () => {
+    const result = runSource(`import "./a.lv" as a in 1`, {
+      file: "/src/main.lv",
+      loader: memoryLoader({ "a.lv": `import "./main.lv" as m let x = 1` }),
+    });
+    expect(result.error).toContain("Import cycle: main.lv -> a.lv -> main.lv");
+  });
+
+  it("reports type errors inside a module with its own source", () => {
+    const result = runSource(`import "./bad.lv" as b in 1`, {
+      file: "/src/main.lv",
+      loader: memoryLoader({ "bad.lv": 'let oops = 1 + "one"' }),
+    });
+    expect(result.error).toContain("In module bad.lv");
+    expect(result.error).toContain('let oops = 1 + "one"');
+  });
+
+  it("points diagnostics for errors inside a module at the module's file", () => {
+    const result = runSource(`import "./bad.lv" as b in 1`, {
+      file: "/src/main.lv",
+      loader: memoryLoader({ "bad.lv": "let oops = (1" }),
+    });
+    const [d] = result.diagnostics!;
+    expect(d.code).toBe("E0101");
+    expect(d.file).toBe(path.resolve("/src/bad.lv"));
+    expect(result.error).toContain("In module bad.lv");
+  });
+});
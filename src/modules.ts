@@ -0,0 +1,159 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { Expr, Program, boundNames, childExprs } from "./ast";
+import { lex } from "./lexer";
+import { parseProgram } from "./parser";
+import { EvalOptions, evaluateProgram } from "./evaluator";
+import { InferContext, inferProgram, generalizeType, Scheme, TypeEnv } from "./typechecker";
+import { Value } from "./values";
+import { createPrelude, createPreludeTypes } from "./prelude";
+import { Codes, renderDiagnostic } from "./diagnostics";
+import { RillLimitError, RillModuleError, toDiagnostics } from "./errors";
+
+export interface Module {
+  path: string;
+  source: string;
+  ast: Program;
+  // The module's top-level bindings, as a record
+  type: Scheme;
+  // Null when the module was loaded for its types only
+  value: Value | null;
+}
+
+// Environment entries that make a program's imports available to infer/evaluate
+export interface Imports {
+  types: TypeEnv;
+  values: Map<string, Value>;
+}
+
+export class ModuleLoader {
+  private modules = new Map<string, Module>();
+  private loading: string[] = [];
+
+  constructor(
+    private readFile: (file: string) => string = (file) => fs.readFileSync(file, "utf-8"),
+    // How each module's declarations are evaluated, as when recording coverage,
+    // or null to only infer their types
+    private evalOptions: EvalOptions | null = {},
+  ) {}
+
+  // A loader that type checks modules without running them, for tools like the
+  // linter and language server that must not execute code
+  static typesOnly(readFile?: (file: string) => string): ModuleLoader {
+    return new ModuleLoader(readFile, null);
+  }
+
+  // Every module loaded so far, in the order loading finished
+  loaded(): Module[] {
+    return [...this.modules.values()];
+  }
+
+  load(file: string): Module {
+    const resolved = path.resolve(file);
+    const cached = this.modules.get(resolved);
+    if (cached) return cached;
+
+    if (this.loading.includes(resolved)) {
+      const cycle = [...this.loading.slice(this.loading.indexOf(resolved)), resolved];
+      const message = `Import cycle: ${cycle.map((f) => path.basename(f)).join(" -> ")}`;
+      throw new RillModuleError([{ code: Codes.ModuleError, severity: "error", message, span: null, labels: [], notes: [] }], message);
+    }
+
+    this.loading.push(resolved);
+    try {
+      const source = this.readFile(resolved);
+      const ast = inModule(resolved, source, () => parseProgram(lex(source)));
+      const imports = this.link(ast, path.dirname(resolved));
+
+      const exports = exportRecord(ast);
+      const { type, value } = inModule(resolved, source, () => {
+        const typeEnv = withEntries(createPreludeTypes(), imports.types);
+        const type = generalizeType(typeEnv, inferProgram(exports, typeEnv, new InferContext(source)).type);
+        const value = this.evalOptions && evaluateProgram(exports, withEntries(createPrelude(), imports.values), this.evalOptions).value;
+        return { type, value };
+      });
+
+      const module: Module = { path: resolved, source, ast, type, value };
+      this.modules.set(resolved, module);
+      return module;
+    } finally {
+      this.loading.pop();
+    }
+  }
+
+  // Links the imports of the program in `file`, which takes part in cycle detection
+  linkFile(ast: Program, file: string): Imports {
+    const resolved = path.resolve(file);
+    this.loading.push(resolved);
+    try {
+      return this.link(ast, path.dirname(resolved));
+    } finally {
+      this.loading.pop();
+    }
+  }
+
+  // Loads every module a program imports, resolving paths relative to `dir`
+  link(ast: Program, dir: string): Imports {
+    const imports: Imports = { types: new Map(), values: new Map() };
+    for (const imp of importsOf(ast)) {
+      const module = this.load(path.resolve(dir, imp.path));
+      imports.types.set(imp.path, module.type);
+      if (module.value) imports.values.set(imp.path, module.value);
+    }
+    return imports;
+  }
+}
+
+// Runs a step of loading the module in `file`, reporting any error against that file
+function inModule<T>(file: string, source: string, step: () => T): T {
+  try {
+    return step();
+  } catch (e) {
+    const diagnostics = toDiagnostics(e).map((d) => ({ ...d, file }));
+    const rendered = diagnostics.map((d) => renderDiagnostic(d, source)).join("\n\n");
+    const limit = e instanceof RillLimitError || e instanceof RillModuleError ? e.limit : undefined;
+    throw new RillModuleError(diagnostics, `In module ${path.basename(file)}:\n${rendered}`, limit);
+  }
+}
+
+// Every import in a program, whether declared at the top level or nested in an expression
+function importsOf(program: Program): { path: string }[] {
+  const found: { path: string }[] = [];
+  const visit = (expr: Expr) => {
+    if (expr.kind === "Import") found.push(expr);
+    for (const child of childExprs(expr)) visit(child);
+  };
+  for (const decl of program.decls) {
+    if (decl.kind === "ImportDecl") found.push(decl);
+    if (decl.kind === "LetDecl") visit(decl.value);
+    if (decl.kind === "TestDecl") visit(decl.body);
+    if (decl.kind === "LetRecDecl") decl.bindings.forEach((b) => visit(b.value));
+  }
+  if (program.body) visit(program.body);
+  return found;
+}
+
+// Replaces a module's final expression with a record of its top-level `let` declarations
+function exportRecord(program: Program): Program {
+  const names: string[] = [];
+  for (const decl of program.decls) {
+    if (decl.kind === "ImportDecl") continue;
+    for (const name of boundNames(decl)) {
+      if (!names.includes(name)) names.push(name);
+    }
+  }
+  const span = program.span;
+  return {
+    ...program,
+    body: {
+      kind: "Record",
+      fields: names.map((name) => ({ name, value: { kind: "Ident", name, span } })),
+      span,
+    },
+  };
+}
+
+export function withEntries<V>(base: Map<string, V>, entries: Map<string, V>): Map<string, V> {
+  for (const [k, v] of entries) base.set(k, v);
+  return base;
+}
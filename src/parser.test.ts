@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { parse } from "./parser";
+import { parse, parseProgram, parseProgramWithErrors } from "./parser";
 import { lex } from "./lexer";
+import { RillSyntaxError, RillSyntaxErrors } from "./errors";
 
 function parseExpr(source: string) {
   return parse(lex(source));
@@ -23,6 +24,18 @@ describe("Parser", () => {
       expect(ast).toMatchObject({ kind: "StringLit", value: "hello" });
     });
 
+    it("parses interpolated strings", () => {
+      const ast = parseExpr('"Hello ${user.name}, you have ${count} items"');
+      expect(ast).toMatchObject({
+        kind: "StringInterp",
+        parts: ["Hello ", ", you have ", " items"],
+        exprs: [
+          { kind: "FieldAccess", field: "name" },
+          { kind: "Ident", name: "count" },
+        ],
+      });
+    });
+
     it("parses booleans", () => {
       expect(parseExpr("true")).toMatchObject({ kind: "BoolLit", value: true });
       expect(parseExpr("false")).toMatchObject({ kind: "BoolLit", value: false });
@@ -96,7 +109,7 @@ describe("Parser", () => {
     it("parses let binding", () => {
       const ast = parseExpr("let x = 5 in x + 1");
       expect(ast).toMatchObject({
-        kind: "Let", name: "x", rec: false,
+        kind: "Let", name: "x",
         value: { kind: "IntLit", value: 5 },
         body: { kind: "BinOp", op: "+" },
       });
@@ -104,7 +117,19 @@ describe("Parser", () => {
 
     it("parses let rec", () => {
       const ast = parseExpr("let rec f = fn(n) -> n in f(5)");
-      expect(ast).toMatchObject({ kind: "Let", name: "f", rec: true });
+      expect(ast).toMatchObject({ kind: "LetRec", bindings: [{ name: "f" }] });
+    });
+
+    it("parses a mutually recursive group", () => {
+      const ast = parseExpr("let rec f = fn(n) -> g(n) and g = fn(n) -> f(n) in f(1)");
+      expect(ast).toMatchObject({
+        kind: "LetRec",
+        bindings: [
+          { name: "f", value: { kind: "Fn", body: { kind: "Call", fn: { kind: "Ident", name: "g" } } } },
+          { name: "g", value: { kind: "Fn", body: { kind: "Call", fn: { kind: "Ident", name: "f" } } } },
+        ],
+        body: { kind: "Call" },
+      });
     });
   });
 
@@ -347,6 +372,183 @@ describe("Parser", () => {
     });
   });
 
+  describe("type declarations", () => {
+    it("parses a sum type declaration", () => {
+      const ast = parseExpr("type Shape = Circle(Float) | Rect(Float, Float) in 1");
+      expect(ast).toMatchObject({
+        kind: "TypeDecl",
+        name: "Shape",
+        params: [],
+        variants: [
+          { tag: "Circle", args: [{ kind: "NamedType", name: "Float" }] },
+          { tag: "Rect", args: [{ kind: "NamedType", name: "Float" }, { kind: "NamedType", name: "Float" }] },
+        ],
+        body: { kind: "IntLit", value: 1 },
+      });
+    });
+
+    it("parses type parameters and nullary constructors", () => {
+      const ast = parseExpr("type Option(a) = | Some(a) | None in None");
+      expect(ast).toMatchObject({
+        kind: "TypeDecl",
+        params: ["a"],
+        variants: [
+          { tag: "Some", args: [{ kind: "VarType", name: "a" }] },
+          { tag: "None", args: [] },
+        ],
+      });
+    });
+
+    it("parses compound argument types", () => {
+      const ast = parseExpr("type T = T(List(a), (Int, String), { name: String }, Int -> Bool) in 1");
+      expect(ast).toMatchObject({
+        variants: [{
+          args: [
+            { kind: "NamedType", name: "List", args: [{ kind: "VarType", name: "a" }] },
+            { kind: "TupleType", elements: [{ kind: "NamedType", name: "Int" }, { kind: "NamedType", name: "String" }] },
+            { kind: "RecordType", fields: [{ name: "name", type: { kind: "NamedType", name: "String" } }] },
+            { kind: "FnType", param: { kind: "NamedType", name: "Int" }, ret: { kind: "NamedType", name: "Bool" } },
+          ],
+        }],
+      });
+    });
+
+    it("parses a parenthesized parameter list as a curried function type", () => {
+      const ast = parseExpr("type T = T((Int, String) -> Bool) in 1");
+      expect(ast).toMatchObject({
+        variants: [{
+          args: [{
+            kind: "FnType",
+            param: { kind: "NamedType", name: "Int" },
+            ret: { kind: "FnType", param: { kind: "NamedType", name: "String" }, ret: { kind: "NamedType", name: "Bool" } },
+          }],
+        }],
+      });
+    });
+  });
+
+  describe("imports", () => {
+    it("parses an import", () => {
+      const ast = parseExpr('import "./helpers.lv" as h in h.double(2)');
+      expect(ast).toMatchObject({
+        kind: "Import",
+        path: "./helpers.lv",
+        name: "h",
+        body: {
+          kind: "Call",
+          fn: { kind: "FieldAccess", expr: { kind: "Ident", name: "h" }, field: "double" },
+          arg: { kind: "IntLit", value: 2 },
+        },
+      });
+    });
+  });
+
+  describe("programs", () => {
+    it("parses a sequence of top-level declarations", () => {
+      const program = parseProgram(lex(`
+        type Shape = Circle(Float) | Rect(Float, Float)
+        import "./helpers.lv" as h
+        let x = 5
+        let rec f = fn(n) -> f(n)
+        x + 1
+      `));
+      expect(program.decls.map((d) => d.kind)).toEqual(["TypeDef", "ImportDecl", "LetDecl", "LetRecDecl"]);
+      expect(program.decls[3]).toMatchObject({ kind: "LetRecDecl", bindings: [{ name: "f" }] });
+      expect(program.body).toMatchObject({ kind: "BinOp", op: "+" });
+    });
+
+    it("allows a program without a final expression", () => {
+      const program = parseProgram(lex("let x = 1\nlet y = 2"));
+      expect(program.decls).toHaveLength(2);
+      expect(program.body).toBeNull();
+    });
+
+    it("parses test declarations", () => {
+      const program = parseProgram(lex('let x = 1\ntest "x is one" = assert_eq(1, x)\nx'));
+      expect(program.decls[1]).toMatchObject({
+        kind: "TestDecl",
+        name: "x is one",
+        body: { kind: "Call", fn: { kind: "Call", fn: { kind: "Ident", name: "assert_eq" } } },
+      });
+      expect(program.body).toMatchObject({ kind: "Ident", name: "x" });
+    });
+
+    it("doesn't scope a test over an expression", () => {
+      expect(() => parseProgram(lex('test "t" = true in 1'))).toThrow("Unexpected token In");
+      expect(() => parseProgram(lex('let t = test "t" = true in 1'))).toThrow("Unexpected token Test");
+    });
+
+    it("treats a trailing let ... in as the final expression", () => {
+      const program = parseProgram(lex("let x = 1\nlet y = 2 in x + y"));
+      expect(program.decls).toHaveLength(1);
+      expect(program.body).toMatchObject({ kind: "Let", name: "y" });
+    });
+  });
+
+  describe("error recovery", () => {
+    function recovered(source: string) {
+      const { program, errors } = parseProgramWithErrors(lex(source));
+      return { program, messages: errors.map((e) => `${e.span.start.line}:${e.span.start.col} ${e.msg}`) };
+    }
+
+    it("reports an error in each declaration and keeps the rest", () => {
+      const { program, messages } = recovered("let xs = [1, 2 3]\nlet r = { a: 1, b 2 }\nlet ok = 1\nok");
+      expect(messages).toEqual([
+        "1:16 Expected RBracket but got Int",
+        "2:19 Expected Colon but got Int",
+      ]);
+      expect(program.decls.map((d) => d.kind === "LetDecl" && d.name)).toEqual(["xs", "r", "ok"]);
+      expect(program.body).toMatchObject({ kind: "Ident", name: "ok" });
+    });
+
+    it("stands Error nodes in for elements that fail to parse", () => {
+      const { program, messages } = recovered("foo(1, , 2)");
+      expect(messages).toEqual(['1:8 Unexpected token Comma (",")']);
+      expect(program.body).toMatchObject({
+        kind: "Call",
+        fn: { kind: "Call", fn: { kind: "Call", arg: { kind: "IntLit" } }, arg: { kind: "Error" } },
+        arg: { kind: "IntLit", value: 2 },
+      });
+    });
+
+    it("skips a match case that fails to parse", () => {
+      const { program, messages } = recovered('match x { 1 -> "a", + -> "b", _ -> "c" }');
+      expect(messages).toEqual(["1:21 Unexpected pattern token Plus"]);
+      expect(program.body).toMatchObject({ kind: "Match", cases: [{ pattern: { kind: "IntPat" } }, { pattern: { kind: "WildcardPat" } }] });
+    });
+
+    it("resynchronizes at in", () => {
+      const { program, messages } = recovered("let x = 1 + in x * 2");
+      expect(messages).toEqual(['1:13 Unexpected token In ("in")']);
+      expect(program.body).toMatchObject({
+        kind: "Let",
+        value: { kind: "Error", span: { start: { col: 9 }, end: { col: 12 } } },
+        body: { kind: "BinOp" },
+      });
+    });
+
+    it("skips stray closing brackets at the top level", () => {
+      const { program, messages } = recovered("let x = 1 )\nlet y = 2");
+      expect(messages).toEqual(['1:11 Unexpected token RParen (")")']);
+      expect(program.decls).toHaveLength(2);
+    });
+
+    it("throws every error at once from parseProgram", () => {
+      let error: unknown;
+      try {
+        parseProgram(lex("let a = (1\nlet b = [2 3]\nlet c = }"));
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(RillSyntaxErrors);
+      expect((error as RillSyntaxErrors).errors.map((e) => e.span.start.line)).toEqual([2, 2, 3]);
+    });
+
+    it("throws a single error on its own", () => {
+      expect(() => parse(lex("[1, 2"))).toThrow(RillSyntaxError);
+    });
+  });
+
   describe("complete programs", () => {
     it("parses a pipeline with error handling", () => {
       const ast = parseExpr(`
@@ -1,19 +1,123 @@
 import { Token, TokenKind } from "./token";
-import { Expr } from "./ast";
+import { Binding, Decl, Expr, ImportDecl, LetDecl, LetRecDecl, MatchCase, Program, ScopedDecl, TestDecl, TypeDef, TypeExpr, Variant, declWithBody } from "./ast";
 import { Span } from "./span";
+import { unescapeString } from "./lexer";
+import { RillSyntaxError, RillSyntaxErrors } from "./errors";
+
+// The parsers below throw the syntax error they found, or RillSyntaxErrors when
+// they found several: parsing carries on past each error to report the rest.
 
 export function parse(tokens: Token[]): Expr {
   const parser = new Parser(tokens);
-  const expr = parser.parseExpr(0);
+  const expr = parser.parseExprOrError();
+  if (!parser.at(TokenKind.EOF)) parser.report(parser.unexpected(TokenKind.EOF));
+  return withoutErrors(parser.errors, expr);
+}
+
+// Parses a whole file: top-level declarations, then an optional final expression
+export function parseProgram(tokens: Token[]): Program {
+  const { program, errors } = parseProgramWithErrors(tokens);
+  return withoutErrors(errors, program);
+}
+
+// Parses a whole file without throwing. Where source failed to parse, the
+// program holds Error nodes (or leaves out the declaration it was in).
+export function parseProgramWithErrors(tokens: Token[]): { program: Program; errors: RillSyntaxError[] } {
+  const parser = new Parser(tokens);
+  const program = parser.parseProgram();
+  return { program, errors: parser.errors };
+}
+
+// Parses a standalone type signature such as `(a -> b, List(a)) -> List(b)`
+export function parseType(tokens: Token[]): TypeExpr {
+  const parser = new Parser(tokens);
+  const type = parser.parseType();
   parser.expect(TokenKind.EOF);
-  return expr;
+  return type;
+}
+
+function withoutErrors<T>(errors: RillSyntaxError[], parsed: T): T {
+  if (errors.length === 1) throw errors[0];
+  if (errors.length > 1) throw new RillSyntaxErrors(errors);
+  return parsed;
 }
 
+// Tokens that open and close bracketed groups, which recovery skips whole
+const OPENERS = new Set([TokenKind.LParen, TokenKind.LBracket, TokenKind.LBrace, TokenKind.InterpStart]);
+const CLOSERS = new Set([TokenKind.RParen, TokenKind.RBracket, TokenKind.RBrace, TokenKind.InterpEnd]);
+
+// Where an expression that failed to parse is assumed to end
+const EXPR_STOPS = [TokenKind.Comma, TokenKind.In, TokenKind.Let, TokenKind.Type, TokenKind.Import, TokenKind.Test];
+// Where a top-level declaration can begin
+const DECL_STARTS = [TokenKind.Let, TokenKind.Type, TokenKind.Import, TokenKind.Test];
+
 class Parser {
   private pos = 0;
+  // The syntax errors found so far
+  readonly errors: RillSyntaxError[] = [];
 
   constructor(private tokens: Token[]) {}
 
+  report(error: RillSyntaxError): void {
+    // One mistake often fails several checks at the same token; keep the first
+    const last = this.errors[this.errors.length - 1];
+    if (last && last.span.start.offset === error.span.start.offset) return;
+    this.errors.push(error);
+  }
+
+  unexpected(kind: TokenKind): RillSyntaxError {
+    const token = this.peek();
+    return new RillSyntaxError(`Expected ${kind} but got ${token.kind}`, token.span);
+  }
+
+  // Skips tokens up to the next of `stops` outside any brackets. A closing
+  // bracket outside them also ends the skip, as it belongs to an enclosing
+  // construct, unless `skipClosers` is set for the top level, where it's stray.
+  synchronize(stops: TokenKind[], skipClosers = false): void {
+    let depth = 0;
+    while (!this.at(TokenKind.EOF)) {
+      const kind = this.peek().kind;
+      if (depth === 0 && stops.includes(kind)) return;
+      if (OPENERS.has(kind)) {
+        depth++;
+      } else if (CLOSERS.has(kind) || kind === TokenKind.InterpMiddle) {
+        if (depth === 0 && !skipClosers) return;
+        if (kind !== TokenKind.InterpMiddle) depth = Math.max(0, depth - 1);
+      }
+      this.advance();
+    }
+  }
+
+  // Runs `parse`; on a syntax error, records it, skips to the next of `stops`
+  // and returns `fallback` for the span of the source skipped
+  recover<T>(parse: () => T, stops: TokenKind[], fallback: (span: Span) => T): T {
+    const start = this.pos;
+    try {
+      return parse();
+    } catch (e) {
+      if (!(e instanceof RillSyntaxError)) throw e;
+      this.report(e);
+      this.synchronize(stops);
+      const span = this.pos > start ? { start: this.tokens[start].span.start, end: this.tokens[this.pos - 1].span.end } : e.span;
+      return fallback(span);
+    }
+  }
+
+  parseExprOrError(): Expr {
+    return this.recover(() => this.parseExpr(0), EXPR_STOPS, (span) => ({ kind: "Error", span }));
+  }
+
+  // Expects the bracket that closes a group. When something else comes first,
+  // the error is recorded and tokens are skipped up to the bracket; when the
+  // bracket is missing altogether, parsing carries on as if it were there.
+  expectClosing(kind: TokenKind): Token {
+    if (this.at(kind)) return this.advance();
+    this.report(this.unexpected(kind));
+    this.synchronize([kind, ...DECL_STARTS, TokenKind.In]);
+    if (this.at(kind)) return this.advance();
+    return { kind, lexeme: "", span: (this.tokens[this.pos - 1] ?? this.peek()).span };
+  }
+
   peek(): Token {
     return this.tokens[this.pos];
   }
@@ -25,10 +129,7 @@ class Parser {
   }
 
   expect(kind: TokenKind): Token {
-    const token = this.peek();
-    if (token.kind !== kind) {
-      throw new Error(`Expected ${kind} but got ${token.kind} at line ${token.span.start.line}, col ${token.span.start.col}`);
-    }
+    if (!this.at(kind)) throw this.unexpected(kind);
     return this.advance();
   }
 
@@ -77,9 +178,12 @@ class Parser {
       }
       case TokenKind.String: {
         this.advance();
-        const value = token.lexeme.slice(1, -1);
+        const value = unescapeString(token.lexeme.slice(1, -1));
         return { kind: "StringLit", value, span: token.span };
       }
+      case TokenKind.InterpStart: {
+        return this.parseInterpolation();
+      }
       case TokenKind.True: {
         this.advance();
         return { kind: "BoolLit", value: true, span: token.span };
@@ -97,9 +201,13 @@ class Parser {
         }
         return expr;
       }
-      // Let binding
-      case TokenKind.Let: {
-        return this.parseLet();
+      // Let binding, type declaration or module import, scoped over the expression after `in`
+      case TokenKind.Let:
+      case TokenKind.Type:
+      case TokenKind.Import: {
+        const decl = this.parseScopedDecl();
+        this.expect(TokenKind.In);
+        return declWithBody(decl, this.parseExprOrError());
       }
       // Function literal
       case TokenKind.Fn: {
@@ -114,12 +222,12 @@ class Parser {
         const lbracket = this.advance();
         const elements: Expr[] = [];
         if (!this.at(TokenKind.RBracket)) {
-          elements.push(this.parseExpr(0));
+          elements.push(this.parseExprOrError());
           while (this.eat(TokenKind.Comma)) {
-            elements.push(this.parseExpr(0));
+            elements.push(this.parseExprOrError());
           }
         }
-        const rbracket = this.expect(TokenKind.RBracket);
+        const rbracket = this.expectClosing(TokenKind.RBracket);
         return { kind: "List", elements, span: { start: lbracket.span.start, end: rbracket.span.end } };
       }
       // Catch expression
@@ -154,39 +262,41 @@ class Parser {
           const rparen = this.advance();
           return { kind: "UnitLit", span: { start: lparen.span.start, end: rparen.span.end } };
         }
-        const first = this.parseExpr(0);
+        const first = this.parseExprOrError();
         if (this.eat(TokenKind.Comma)) {
           // It's a tuple
           const elements: Expr[] = [first];
-          elements.push(this.parseExpr(0));
+          elements.push(this.parseExprOrError());
           while (this.eat(TokenKind.Comma)) {
-            elements.push(this.parseExpr(0));
+            elements.push(this.parseExprOrError());
           }
-          const rparen = this.expect(TokenKind.RParen);
+          const rparen = this.expectClosing(TokenKind.RParen);
           return { kind: "Tuple", elements, span: { start: lparen.span.start, end: rparen.span.end } };
         }
         // It's grouping
-        this.expect(TokenKind.RParen);
+        this.expectClosing(TokenKind.RParen);
         return first;
       }
       // Record literal
       case TokenKind.LBrace: {
         const lbrace = this.advance();
         const fields: { name: string; value: Expr }[] = [];
+        const parseField = () => {
+          const field = this.recover(() => {
+            const name = this.expect(TokenKind.Ident).lexeme;
+            this.expect(TokenKind.Colon);
+            return { name, value: this.parseExprOrError() };
+          }, [TokenKind.Comma], () => null);
+          if (field) fields.push(field);
+        };
         if (!this.at(TokenKind.RBrace)) {
-          const name = this.expect(TokenKind.Ident).lexeme;
-          this.expect(TokenKind.Colon);
-          const value = this.parseExpr(0);
-          fields.push({ name, value });
+          parseField();
           while (this.eat(TokenKind.Comma)) {
             if (this.at(TokenKind.RBrace)) break;
-            const n = this.expect(TokenKind.Ident).lexeme;
-            this.expect(TokenKind.Colon);
-            const v = this.parseExpr(0);
-            fields.push({ name: n, value: v });
+            parseField();
           }
         }
-        const rbrace = this.expect(TokenKind.RBrace);
+        const rbrace = this.expectClosing(TokenKind.RBrace);
         return { kind: "Record", fields, span: { start: lbrace.span.start, end: rbrace.span.end } };
       }
       // Tagged values (UpperIdent)
@@ -197,54 +307,239 @@ class Parser {
         if (this.at(TokenKind.LParen)) {
           this.advance();
           if (!this.at(TokenKind.RParen)) {
-            args.push(this.parseExpr(0));
+            args.push(this.parseExprOrError());
             while (this.eat(TokenKind.Comma)) {
-              args.push(this.parseExpr(0));
+              args.push(this.parseExprOrError());
             }
           }
-          this.expect(TokenKind.RParen);
+          this.expectClosing(TokenKind.RParen);
         }
         const endSpan = args.length > 0 ? args[args.length - 1].span : token.span;
         return { kind: "Tag", tag, args, span: { start: token.span.start, end: this.tokens[this.pos - 1].span.end } };
       }
       default:
-        throw new Error(`Unexpected token ${token.kind} ("${token.lexeme}") at line ${token.span.start.line}, col ${token.span.start.col}`);
+        throw new RillSyntaxError(`Unexpected token ${token.kind} ("${token.lexeme}")`, token.span);
+    }
+  }
+
+  parseInterpolation(): Expr {
+    const start = this.expect(TokenKind.InterpStart);
+    const parts = [unescapeString(start.lexeme.slice(1, -2))]; // strip `"` and `${`
+    const exprs: Expr[] = [];
+    while (true) {
+      exprs.push(this.parseExprOrError());
+      const next = this.peek();
+      if (next.kind === TokenKind.InterpMiddle) {
+        this.advance();
+        parts.push(unescapeString(next.lexeme.slice(1, -2))); // strip `}` and `${`
+        continue;
+      }
+      const end = this.expect(TokenKind.InterpEnd);
+      parts.push(unescapeString(end.lexeme.slice(1, -1))); // strip `}` and `"`
+      return { kind: "StringInterp", parts, exprs, span: { start: start.span.start, end: end.span.end } };
+    }
+  }
+
+  parseProgram(): Program {
+    const start = this.peek().span;
+    const decls: Decl[] = [];
+    let body: Expr | null = null;
+    while (!this.at(TokenKind.EOF)) {
+      const before = this.pos;
+      try {
+        if (!DECL_STARTS.includes(this.peek().kind)) {
+          body = this.parseExprOrError();
+          this.expect(TokenKind.EOF);
+          break;
+        }
+        const decl = this.parseDecl();
+        // A declaration followed by `in` is the program's final expression
+        if (decl.kind !== "TestDecl" && this.eat(TokenKind.In)) {
+          body = declWithBody(decl, this.parseExprOrError());
+          this.expect(TokenKind.EOF);
+          break;
+        }
+        decls.push(decl);
+      } catch (e) {
+        // Resume at the next declaration, leaving out the one that failed
+        if (!(e instanceof RillSyntaxError)) throw e;
+        this.report(e);
+        this.synchronize(DECL_STARTS, true);
+        if (this.pos === before) this.advance();
+      }
+    }
+    return { kind: "Program", decls, body, span: this.spanFrom(start) };
+  }
+
+  parseDecl(): Decl {
+    return this.at(TokenKind.Test) ? this.parseTestDecl() : this.parseScopedDecl();
+  }
+
+  parseScopedDecl(): ScopedDecl {
+    switch (this.peek().kind) {
+      case TokenKind.Type: return this.parseTypeDef();
+      case TokenKind.Import: return this.parseImportDecl();
+      default: return this.parseLetDecl();
     }
   }
 
-  parseLet(): Expr {
+  parseLetDecl(): LetDecl | LetRecDecl {
     const letToken = this.expect(TokenKind.Let);
-    const rec = !!this.eat(TokenKind.Rec);
-    const nameToken = this.expect(TokenKind.Ident);
-    this.expect(TokenKind.Eq);
-    const value = this.parseExpr(0);
-    this.expect(TokenKind.In);
-    const body = this.parseExpr(0);
+    if (this.eat(TokenKind.Rec)) {
+      const bindings = [this.parseBinding()];
+      while (this.eat(TokenKind.And)) bindings.push(this.parseBinding());
+      const end = bindings[bindings.length - 1].span.end;
+      return { kind: "LetRecDecl", bindings, span: { start: letToken.span.start, end } };
+    }
+    const binding = this.parseBinding();
     return {
-      kind: "Let",
-      name: nameToken.lexeme,
-      value,
-      body,
-      rec,
-      span: { start: letToken.span.start, end: body.span.end },
+      kind: "LetDecl",
+      name: binding.name,
+      nameSpan: binding.nameSpan,
+      value: binding.value,
+      span: { start: letToken.span.start, end: binding.span.end },
     };
   }
 
+  parseBinding(): Binding {
+    const nameToken = this.expect(TokenKind.Ident);
+    this.expect(TokenKind.Eq);
+    const value = this.parseExprOrError();
+    return { name: nameToken.lexeme, nameSpan: nameToken.span, value, span: { start: nameToken.span.start, end: value.span.end } };
+  }
+
+  parseTypeDef(): TypeDef {
+    const typeToken = this.expect(TokenKind.Type);
+    const name = this.expect(TokenKind.UpperIdent).lexeme;
+    const params: string[] = [];
+    if (this.eat(TokenKind.LParen)) {
+      params.push(this.expect(TokenKind.Ident).lexeme);
+      while (this.eat(TokenKind.Comma)) {
+        params.push(this.expect(TokenKind.Ident).lexeme);
+      }
+      this.expect(TokenKind.RParen);
+    }
+    this.expect(TokenKind.Eq);
+    this.eat(TokenKind.Bar); // optional leading bar
+    const variants: Variant[] = [this.parseVariant()];
+    while (this.eat(TokenKind.Bar)) {
+      variants.push(this.parseVariant());
+    }
+    return { kind: "TypeDef", name, params, variants, span: this.spanFrom(typeToken.span) };
+  }
+
+  parseImportDecl(): ImportDecl {
+    const importToken = this.expect(TokenKind.Import);
+    const path = this.expect(TokenKind.String).lexeme.slice(1, -1);
+    this.expect(TokenKind.As);
+    const name = this.expect(TokenKind.Ident).lexeme;
+    return { kind: "ImportDecl", path, name, span: this.spanFrom(importToken.span) };
+  }
+
+  parseTestDecl(): TestDecl {
+    const testToken = this.expect(TokenKind.Test);
+    const name = this.expect(TokenKind.String).lexeme.slice(1, -1);
+    this.expect(TokenKind.Eq);
+    const body = this.parseExprOrError();
+    return { kind: "TestDecl", name, body, span: { start: testToken.span.start, end: body.span.end } };
+  }
+
+  parseVariant(): Variant {
+    const tag = this.expect(TokenKind.UpperIdent).lexeme;
+    const args: TypeExpr[] = [];
+    if (this.eat(TokenKind.LParen)) {
+      args.push(this.parseType());
+      while (this.eat(TokenKind.Comma)) {
+        args.push(this.parseType());
+      }
+      this.expect(TokenKind.RParen);
+    }
+    return { tag, args };
+  }
+
+  parseType(): TypeExpr {
+    // A parenthesized list followed by -> is a curried parameter list:
+    //   (a -> b, List(a)) -> List(b)
+    if (this.at(TokenKind.LParen)) {
+      this.advance();
+      if (this.eat(TokenKind.RParen)) {
+        const unit: TypeExpr = { kind: "NamedType", name: "Unit", args: [] };
+        return this.eat(TokenKind.Arrow) ? { kind: "FnType", param: unit, ret: this.parseType() } : unit;
+      }
+      const elements: TypeExpr[] = [this.parseType()];
+      while (this.eat(TokenKind.Comma)) {
+        elements.push(this.parseType());
+      }
+      this.expect(TokenKind.RParen);
+      if (this.eat(TokenKind.Arrow)) {
+        let result = this.parseType();
+        for (let i = elements.length - 1; i >= 0; i--) {
+          result = { kind: "FnType", param: elements[i], ret: result };
+        }
+        return result;
+      }
+      return elements.length === 1 ? elements[0] : { kind: "TupleType", elements };
+    }
+    const param = this.parseTypeAtom();
+    if (this.eat(TokenKind.Arrow)) {
+      return { kind: "FnType", param, ret: this.parseType() };
+    }
+    return param;
+  }
+
+  parseTypeAtom(): TypeExpr {
+    const token = this.peek();
+    switch (token.kind) {
+      case TokenKind.UpperIdent: {
+        this.advance();
+        const args: TypeExpr[] = [];
+        if (this.eat(TokenKind.LParen)) {
+          args.push(this.parseType());
+          while (this.eat(TokenKind.Comma)) {
+            args.push(this.parseType());
+          }
+          this.expect(TokenKind.RParen);
+        }
+        return { kind: "NamedType", name: token.lexeme, args };
+      }
+      case TokenKind.Ident: {
+        this.advance();
+        return { kind: "VarType", name: token.lexeme };
+      }
+      case TokenKind.LBrace: {
+        this.advance();
+        const fields: { name: string; type: TypeExpr }[] = [];
+        if (!this.at(TokenKind.RBrace)) {
+          do {
+            if (this.at(TokenKind.RBrace)) break;
+            const name = this.expect(TokenKind.Ident).lexeme;
+            this.expect(TokenKind.Colon);
+            fields.push({ name, type: this.parseType() });
+          } while (this.eat(TokenKind.Comma));
+        }
+        this.expect(TokenKind.RBrace);
+        return { kind: "RecordType", fields };
+      }
+      default:
+        throw new RillSyntaxError(`Unexpected type token ${token.kind}`, token.span);
+    }
+  }
+
   parseFn(): Expr {
     const fnToken = this.expect(TokenKind.Fn);
-    const params: string[] = [];
+    const params: Token[] = [];
     if (this.eat(TokenKind.LParen)) {
       // fn(a, b) -> ...
       if (!this.at(TokenKind.RParen)) {
-        params.push(this.expect(TokenKind.Ident).lexeme);
+        params.push(this.expect(TokenKind.Ident));
         while (this.eat(TokenKind.Comma)) {
-          params.push(this.expect(TokenKind.Ident).lexeme);
+          params.push(this.expect(TokenKind.Ident));
         }
       }
       this.expect(TokenKind.RParen);
     } else {
       // fn x -> ... (shorthand single param)
-      params.push(this.expect(TokenKind.Ident).lexeme);
+      params.push(this.expect(TokenKind.Ident));
     }
     this.expect(TokenKind.Arrow);
     // Stop fn body before pipe operator so pipes stay at the outer level
@@ -256,14 +551,16 @@ class Parser {
     for (let i = params.length - 1; i >= 1; i--) {
       result = {
         kind: "Fn",
-        param: params[i],
+        param: params[i].lexeme,
+        paramSpan: params[i].span,
         body: result,
         span: { start: fnToken.span.start, end: body.span.end },
       };
     }
     return {
       kind: "Fn",
-      param: params[0] || "_",
+      param: params[0]?.lexeme ?? "_",
+      paramSpan: (params[0] ?? fnToken).span,
       body: result,
       span: { start: fnToken.span.start, end: body.span.end },
     };
@@ -273,12 +570,12 @@ class Parser {
     this.expect(TokenKind.LParen);
     const args: Expr[] = [];
     if (!this.at(TokenKind.RParen)) {
-      args.push(this.parseExpr(0));
+      args.push(this.parseExprOrError());
       while (this.eat(TokenKind.Comma)) {
-        args.push(this.parseExpr(0));
+        args.push(this.parseExprOrError());
       }
     }
-    const rparen = this.expect(TokenKind.RParen);
+    const rparen = this.expectClosing(TokenKind.RParen);
 
     // Desugar multi-arg call into nested Call nodes
     let result: Expr = fn;
@@ -297,15 +594,20 @@ class Parser {
     const matchToken = this.expect(TokenKind.Match);
     const subject = this.parseExpr(0);
     this.expect(TokenKind.LBrace);
-    const cases: { pattern: import("./ast").Pattern; body: Expr }[] = [];
+    const cases: MatchCase[] = [];
+    // A case that fails to parse is left out
+    const parseCase = () => {
+      const c = this.recover(() => this.parseMatchCase(), [TokenKind.Comma], () => null);
+      if (c) cases.push(c);
+    };
     if (!this.at(TokenKind.RBrace)) {
-      cases.push(this.parseMatchCase());
+      parseCase();
       while (this.eat(TokenKind.Comma)) {
         if (this.at(TokenKind.RBrace)) break; // trailing comma
-        cases.push(this.parseMatchCase());
+        parseCase();
       }
     }
-    const rbrace = this.expect(TokenKind.RBrace);
+    const rbrace = this.expectClosing(TokenKind.RBrace);
     return {
       kind: "Match",
       subject,
@@ -314,11 +616,12 @@ class Parser {
     };
   }
 
-  parseMatchCase(): { pattern: import("./ast").Pattern; body: Expr } {
+  parseMatchCase(): MatchCase {
+    const start = this.peek().span;
     const pattern = this.parsePattern();
     this.expect(TokenKind.Arrow);
-    const body = this.parseExpr(0);
-    return { pattern, body };
+    const body = this.parseExprOrError();
+    return { pattern, body, span: { start: start.start, end: body.span.end } };
   }
 
   parsePattern(): import("./ast").Pattern {
@@ -335,7 +638,7 @@ class Parser {
       }
       case TokenKind.String: {
         this.advance();
-        return { kind: "StringPat", value: token.lexeme.slice(1, -1) };
+        return { kind: "StringPat", value: unescapeString(token.lexeme.slice(1, -1)) };
       }
       case TokenKind.True: {
         this.advance();
@@ -381,10 +684,10 @@ class Parser {
       }
       case TokenKind.Ident: {
         this.advance();
-        return { kind: "IdentPat", name: token.lexeme };
+        return { kind: "IdentPat", name: token.lexeme, span: token.span };
       }
       default:
-        throw new Error(`Unexpected pattern token ${token.kind} at line ${token.span.start.line}, col ${token.span.start.col}`);
+        throw new RillSyntaxError(`Unexpected pattern token ${token.kind}`, token.span);
     }
   }
 
@@ -394,12 +697,17 @@ class Parser {
     // Field access
     if (opToken.kind === TokenKind.Dot) {
       const field = this.expect(TokenKind.Ident);
-      return {
+      let expr: Expr = {
         kind: "FieldAccess",
         expr: left,
         field: field.lexeme,
         span: { start: left.span.start, end: field.span.end },
       };
+      // Calling a function stored in a record: h.double(2)
+      while (this.at(TokenKind.LParen)) {
+        expr = this.parseCallArgs(expr);
+      }
+      return expr;
     }
 
     // Pipe operator creates Pipe node, not BinOp
@@ -3,7 +3,9 @@ import { evaluate } from "./evaluator";
 import { parse } from "./parser";
 import { lex } from "./lexer";
 import { prettyPrint, Value } from "./values";
-import { createPrelude } from "./prelude";
+import { createPrelude, createPreludeTypes } from "./prelude";
+import { infer } from "./typechecker";
+import { prettyType } from "./types";
 
 function run(source: string): Value {
   return evaluate(parse(lex(source)), createPrelude());
@@ -52,6 +54,12 @@ describe("Prelude", () => {
     it("returns string length", () => {
       expect(runPrint('length("hello")')).toBe("5");
     });
+
+    it("types string length separately", () => {
+      expect(runPrint('string_length("hello")')).toBe("5");
+      expect(prettyType(infer(parse(lex('"hello" |> string_length')), createPreludeTypes()))).toBe("Int");
+      expect(() => infer(parse(lex('length("hello")')), createPreludeTypes())).toThrow("Cannot unify List(a) with String");
+    });
   });
 
   describe("head and tail", () => {
@@ -78,6 +86,178 @@ describe("Prelude", () => {
     });
   });
 
+  describe("json_parse and json_stringify", () => {
+    it("parses JSON into Rill values", () => {
+      expect(runPrint('json_parse("[1, 2.5, null, [true]]")')).toBe("Ok([1, 2.5, None, [true]])");
+    });
+
+    it("returns Err for malformed JSON", () => {
+      expect(runPrint('json_parse("{")')).toMatch(/^Err\(".+"\)$/);
+    });
+
+    it("stringifies Rill values as JSON", () => {
+      expect(runPrint('json_stringify({ name: "Ada", tags: [1, 2.5], boss: None })'))
+        .toBe('"{"name":"Ada","tags":[1,2.5],"boss":null}"');
+    });
+
+    it("round-trips through both builtins", () => {
+      expect(runPrint('json_stringify({ ids: [1, 2], boss: None }) |> json_parse')).toBe("Ok({ ids: [1, 2], boss: None })");
+    });
+  });
+
+  describe("lists", () => {
+    it("builds ranges, end exclusive", () => {
+      expect(runPrint("range(1, 5)")).toBe("[1, 2, 3, 4]");
+      expect(runPrint("range(3, 1)")).toBe("[]");
+    });
+
+    it("reverses, takes and drops", () => {
+      expect(runPrint("[1, 2, 3] |> reverse")).toBe("[3, 2, 1]");
+      expect(runPrint("[1, 2, 3] |> take(2)")).toBe("[1, 2]");
+      expect(runPrint("[1, 2, 3] |> drop(2)")).toBe("[3]");
+      expect(runPrint("(take(9, [1]), take(-1, [1]), drop(9, [1]))")).toBe("([1], [], [])");
+    });
+
+    it("zips to the shorter list and unzips", () => {
+      expect(runPrint('zip([1, 2, 3], ["a", "b"])')).toBe('[(1, "a"), (2, "b")]');
+      expect(runPrint('[(1, "a"), (2, "b")] |> unzip')).toBe('([1, 2], ["a", "b"])');
+      expect(runPrint("[1, 2] |> enumerate")).toBe("[(0, 1), (1, 2)]");
+    });
+
+    it("flat maps", () => {
+      expect(runPrint("[1, 2, 3] |> flat_map(fn(x) -> range(0, x))")).toBe("[0, 0, 1, 0, 1, 2]");
+    });
+
+    it("finds and tests elements", () => {
+      expect(runPrint("[1, 4, 6] |> find(fn(x) -> x > 3)")).toBe("Ok(4)");
+      expect(runPrint("[1] |> find(fn(x) -> x > 3)")).toBe('Err("not found")');
+      expect(runPrint("([1, 4] |> any(fn(x) -> x > 3), [1, 4] |> all(fn(x) -> x > 3), [] |> all(fn(x) -> x > 3))"))
+        .toBe("(true, false, true)");
+    });
+
+    it("stops testing at the first element that decides", () => {
+      expect(runPrint("[1, 0] |> any(fn(x) -> 1 / x == 1)")).toBe("true");
+      expect(runPrint("[0, 1] |> all(fn(x) -> x == 1 && 1 / x == 1)")).toBe("false");
+    });
+
+    it("sums", () => {
+      expect(runPrint("range(1, 101) |> sum")).toBe("5050");
+      expect(runPrint("sum([])")).toBe("0");
+    });
+
+    it("sorts stably", () => {
+      expect(runPrint('["pear", "fig", "apple"] |> sort')).toBe('["apple", "fig", "pear"]');
+      expect(runPrint("[(2, 1), (1, 5), (2, 0)] |> sort")).toBe("[(1, 5), (2, 0), (2, 1)]");
+      expect(runPrint('["pear", "fig", "kiwi"] |> sort_by(length)')).toBe('["fig", "pear", "kiwi"]');
+      expect(() => run("[fn(x) -> x, fn(x) -> x] |> sort")).toThrow("Cannot compare Closure values");
+    });
+
+    it("groups, dedupes and partitions", () => {
+      expect(runPrint("[1, 2, 3, 4, 5] |> group_by(fn(x) -> x % 2)")).toBe("[(1, [1, 3, 5]), (0, [2, 4])]");
+      expect(runPrint("[Some(1), None, Some(1)] |> unique")).toBe("[Some(1), None]");
+      expect(runPrint("[1, 2, 3, 4] |> partition(fn(x) -> x > 2)")).toBe("([3, 4], [1, 2])");
+    });
+
+    it("indexes into Results", () => {
+      expect(runPrint("[5, 6] |> nth(1)")).toBe("Ok(6)");
+      expect(runPrint("(nth(2, [5, 6]), nth(-1, [5, 6]))")).toBe('(Err("index out of range"), Err("index out of range"))');
+    });
+
+    it("appends the list given first after the one piped in", () => {
+      expect(runPrint("[1, 2] |> append([3])")).toBe("[1, 2, 3]");
+    });
+
+    it("is typed so mistakes are caught before running", () => {
+      const typeOf = (source: string) => prettyType(infer(parse(lex(source)), createPreludeTypes()));
+      expect(typeOf("range(0, 3) |> zip([\"a\"]) |> unzip")).toBe("(List(String), List(Int))");
+      expect(typeOf('["ab"] |> group_by(starts_with("a"))')).toBe("List((Bool, List(String)))");
+      expect(typeOf("take(2)")).toBe("List(a) -> List(a)");
+      expect(() => typeOf('sum(["a"])')).toThrow();
+      expect(() => typeOf('[1] |> append(["a"])')).toThrow();
+    });
+  });
+
+  describe("strings", () => {
+    it("splits and joins", () => {
+      expect(runPrint('split(",", "a,b,,c")')).toBe('["a", "b", "", "c"]');
+      expect(runPrint('"a b c" |> split(" ") |> join("-")')).toBe('"a-b-c"');
+      expect(runPrint('join(", ", [])')).toBe('""');
+    });
+
+    it("trims, changes case and repeats", () => {
+      expect(runPrint('"  hi  " |> trim')).toBe('"hi"');
+      expect(runPrint('(to_upper("Rill"), to_lower("Rill"))')).toBe('("RILL", "rill")');
+      expect(runPrint('repeat(3, "ab")')).toBe('"ababab"');
+      expect(() => run('repeat(-1, "ab")')).toThrow("repeat expects a count of at least 0, got -1");
+    });
+
+    it("replaces every occurrence", () => {
+      expect(runPrint('"a-b-c" |> replace("-", "+")')).toBe('"a+b+c"');
+    });
+
+    it("takes substrings, clamping the bounds", () => {
+      expect(runPrint('substring(1, 3, "hello")')).toBe('"el"');
+      expect(runPrint('substring(-2, 99, "hello")')).toBe('"hello"');
+      expect(runPrint('substring(3, 1, "hello")')).toBe('""');
+    });
+
+    it("searches", () => {
+      expect(runPrint('index_of("l", "hello")')).toBe("Ok(2)");
+      expect(runPrint('index_of("z", "hello")')).toBe('Err("not found")');
+      expect(runPrint('("hello" |> contains("ell"), "hello" |> starts_with("he"), "hello" |> ends_with("he"))'))
+        .toBe("(true, true, false)");
+    });
+
+    it("splits into characters", () => {
+      expect(runPrint('chars("abc")')).toBe('["a", "b", "c"]');
+      expect(runPrint('chars("")')).toBe("[]");
+    });
+
+    it("pads to a width", () => {
+      expect(runPrint('"7" |> pad_left(3, "0")')).toBe('"007"');
+      expect(runPrint('pad_right(5, "-=", "ab")')).toBe('"ab-=-"');
+      expect(runPrint('pad_left(2, " ", "long")')).toBe('"long"');
+    });
+
+    it("parses numbers into Results", () => {
+      expect(runPrint('(parse_int(" 42 "), parse_int("-7"), parse_int("4.2"), parse_int("x"))'))
+        .toBe('(Ok(42), Ok(-7), Err("Not an integer: "4.2""), Err("Not an integer: "x""))');
+      expect(runPrint('(parse_float("2.5"), parse_float("1e3"), parse_float("Infinity"), parse_float(""))'))
+        .toBe('(Ok(2.5), Ok(1000), Err("Not a number: "Infinity""), Err("Not a number: """))');
+    });
+
+    it("is typed so mistakes are caught before running", () => {
+      const typeOf = (source: string) => prettyType(infer(parse(lex(source)), createPreludeTypes()));
+      expect(typeOf('"a,b" |> split(",") |> map(to_upper) |> join("")')).toBe("String");
+      expect(typeOf("pad_left(4)")).toBe("String -> String -> String");
+      expect(() => typeOf('split(",", 12)')).toThrow();
+      expect(() => typeOf('join(",", [1, 2])')).toThrow();
+    });
+  });
+
+  describe("assertions", () => {
+    it("return unit when they hold", () => {
+      expect(runPrint("assert(1 < 2)")).toBe("()");
+      expect(runPrint("[1, 2] |> map(fn(x) -> x + 1) |> assert_eq([2, 3])")).toBe("()");
+      expect(runPrint("assert_ne(Some(1), Some(2))")).toBe("()");
+    });
+
+    it("compare values structurally", () => {
+      expect(runPrint('assert_eq({ a: [1], b: "x" }, { b: "x", a: [1] })')).toBe("()");
+    });
+
+    it("fail with the values they compared", () => {
+      expect(() => run("assert_eq([1, 2], [1, 3])")).toThrow(expect.objectContaining({
+        msg: "Values are not equal",
+        expected: "[1, 2]",
+        actual: "[1, 3]",
+        diagnostic: expect.objectContaining({ code: "E0305" }),
+      }));
+      expect(() => run("assert(false)")).toThrow("Assertion failed");
+      expect(() => run("assert_ne(1, 1)")).toThrow(expect.objectContaining({ expected: null, actual: "1" }));
+    });
+  });
+
   describe("pipeline composition", () => {
     it("chains filter, map, and fold", () => {
       expect(runPrint(`
@@ -88,4 +268,33 @@ describe("Prelude", () => {
       `)).toBe("120");
     });
   });
+
+  describe("type signatures", () => {
+    function typeOf(source: string): string {
+      return prettyType(infer(parse(lex(source)), createPreludeTypes()));
+    }
+
+    it("has a signature for every builtin", () => {
+      const types = createPreludeTypes();
+      for (const name of createPrelude().keys()) {
+        expect(types.has(name), name).toBe(true);
+      }
+    });
+
+    it("types a pipeline through builtins", () => {
+      expect(typeOf('[1, 2, 3] |> map(fn(x) -> x * 2) |> map(to_string)')).toBe("List(String)");
+    });
+
+    it("instantiates builtins polymorphically", () => {
+      expect(typeOf('(length([1]), length(["a"]))')).toBe("(Int, Int)");
+    });
+
+    it("types partial application of builtins", () => {
+      expect(typeOf("fold(0, fn(acc, x) -> acc + x)")).toBe("List(Int) -> Int");
+    });
+
+    it("rejects a type mistake in a pipeline", () => {
+      expect(() => typeOf('[1, 2, 3] |> map(fn(x) -> x ++ "!")')).toThrow();
+    });
+  });
 });
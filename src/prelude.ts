@@ -1,10 +1,79 @@
-import { Value, prettyPrint } from "./values";
-import { applyFn } from "./evaluator";
+import { Value, compareValues, displayString, fromRill, prettyPrint, toRill, valuesEqual } from "./values";
+import { AssertionFailure } from "./errors";
+import { applyFn, reserve } from "./evaluator";
+import { lex } from "./lexer";
+import { parseType } from "./parser";
+import { TypeEnv, signatureScheme } from "./typechecker";
 
 function builtin(name: string, arity: number, fn: (args: Value[]) => Value): Value {
   return { kind: "BuiltinFn", name, arity, applied: [], fn };
 }
 
+// Type signatures of every builtin in createPrelude(), in the README's notation
+const SIGNATURES: Record<string, string> = {
+  map: "(a -> b, List(a)) -> List(b)",
+  filter: "(a -> Bool, List(a)) -> List(a)",
+  fold: "(b, (b, a) -> b, List(a)) -> b",
+  length: "List(a) -> Int",
+  string_length: "String -> Int",
+  head: "List(a) -> Result(a)",
+  tail: "List(a) -> Result(List(a))",
+  to_string: "a -> String",
+  print: "a -> Unit",
+  concat: "(String, String) -> String",
+  split: "(String, String) -> List(String)",
+  join: "(String, List(String)) -> String",
+  trim: "String -> String",
+  replace: "(String, String, String) -> String",
+  substring: "(Int, Int, String) -> String",
+  index_of: "(String, String) -> Result(Int)",
+  contains: "(String, String) -> Bool",
+  starts_with: "(String, String) -> Bool",
+  ends_with: "(String, String) -> Bool",
+  to_upper: "String -> String",
+  to_lower: "String -> String",
+  chars: "String -> List(String)",
+  repeat: "(Int, String) -> String",
+  pad_left: "(Int, String, String) -> String",
+  pad_right: "(Int, String, String) -> String",
+  parse_int: "String -> Result(Int)",
+  parse_float: "String -> Result(Float)",
+  each: "(a -> b, List(a)) -> Unit",
+  range: "(Int, Int) -> List(Int)",
+  reverse: "List(a) -> List(a)",
+  take: "(Int, List(a)) -> List(a)",
+  drop: "(Int, List(a)) -> List(a)",
+  zip: "(List(a), List(b)) -> List((a, b))",
+  unzip: "List((a, b)) -> (List(a), List(b))",
+  flat_map: "(a -> List(b), List(a)) -> List(b)",
+  find: "(a -> Bool, List(a)) -> Result(a)",
+  any: "(a -> Bool, List(a)) -> Bool",
+  all: "(a -> Bool, List(a)) -> Bool",
+  sum: "List(Int) -> Int",
+  sort: "List(a) -> List(a)",
+  sort_by: "(a -> b, List(a)) -> List(a)",
+  group_by: "(a -> k, List(a)) -> List((k, List(a)))",
+  unique: "List(a) -> List(a)",
+  partition: "(a -> Bool, List(a)) -> (List(a), List(a))",
+  enumerate: "List(a) -> List((Int, a))",
+  nth: "(Int, List(a)) -> Result(a)",
+  append: "(List(a), List(a)) -> List(a)",
+  json_parse: "String -> Result(a)",
+  json_stringify: "a -> String",
+  assert: "Bool -> Unit",
+  assert_eq: "(a, a) -> Unit",
+  assert_ne: "(a, a) -> Unit",
+};
+
+// The initial type environment matching createPrelude()
+export function createPreludeTypes(): TypeEnv {
+  const env: TypeEnv = new Map();
+  for (const [name, signature] of Object.entries(SIGNATURES)) {
+    env.set(name, signatureScheme(parseType(lex(signature))));
+  }
+  return env;
+}
+
 function assertList(v: Value): asserts v is { kind: "List"; elements: Value[] } {
   if (v.kind !== "List") throw new Error(`Expected List, got ${v.kind}`);
 }
@@ -13,6 +82,45 @@ function assertBool(v: Value): asserts v is { kind: "Bool"; value: boolean } {
   if (v.kind !== "Bool") throw new Error(`Expected Bool, got ${v.kind}`);
 }
 
+function assertString(v: Value): asserts v is { kind: "String"; value: string } {
+  if (v.kind !== "String") throw new Error(`Expected String, got ${v.kind}`);
+}
+
+function assertInt(v: Value): asserts v is { kind: "Int"; value: number } {
+  if (v.kind !== "Int") throw new Error(`Expected Int, got ${v.kind}`);
+}
+
+function listOf(elements: Value[]): Value {
+  return { kind: "List", elements };
+}
+
+function tupleOf(...elements: Value[]): Value {
+  return { kind: "Tuple", elements };
+}
+
+// Applies a predicate, which must return a Bool
+function holds(f: Value, el: Value): boolean {
+  const result = applyFn(f, el);
+  assertBool(result);
+  return result.value;
+}
+
+function str(value: string): Value {
+  return { kind: "String", value };
+}
+
+function ok(value: Value): Value {
+  return { kind: "Tag", tag: "Ok", args: [value] };
+}
+
+function err(message: string): Value {
+  return { kind: "Tag", tag: "Err", args: [str(message)] };
+}
+
+// Integers and decimals as the lexer reads them, with an optional sign and exponent
+const INT_TEXT = /^[+-]?\d+$/;
+const FLOAT_TEXT = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
 export function createPrelude(): Map<string, Value> {
   const env = new Map<string, Value>();
 
@@ -44,6 +152,12 @@ export function createPrelude(): Map<string, Value> {
     throw new Error("length expects List or String");
   }));
 
+  // `length` can only be typed for lists, so strings have their own
+  env.set("string_length", builtin("string_length", 1, ([s]) => {
+    assertString(s);
+    return { kind: "Int", value: s.value.length };
+  }));
+
   env.set("head", builtin("head", 1, ([list]) => {
     assertList(list);
     if (list.elements.length === 0) return { kind: "Tag", tag: "Err", args: [{ kind: "String", value: "empty list" }] };
@@ -57,16 +171,11 @@ export function createPrelude(): Map<string, Value> {
   }));
 
   env.set("to_string", builtin("to_string", 1, ([v]) => {
-    if (v.kind === "Int") return { kind: "String", value: String(v.value) };
-    if (v.kind === "Float") return { kind: "String", value: String(v.value) };
-    if (v.kind === "Bool") return { kind: "String", value: String(v.value) };
-    if (v.kind === "String") return v;
-    return { kind: "String", value: prettyPrint(v) };
+    return { kind: "String", value: displayString(v) };
   }));
 
   env.set("print", builtin("print", 1, ([v]) => {
-    if (v.kind === "String") console.log(v.value);
-    else console.log(prettyPrint(v));
+    console.log(displayString(v));
     return { kind: "Unit" };
   }));
 
@@ -76,11 +185,313 @@ export function createPrelude(): Map<string, Value> {
     return { kind: "String", value: a.value + b.value };
   }));
 
+  // The string builtins take the string last, so it can be piped in. Positions
+  // count UTF-16 code units, as `string_length` does.
+  env.set("split", builtin("split", 2, ([sep, s]) => {
+    assertString(sep);
+    assertString(s);
+    return { kind: "List", elements: s.value.split(sep.value).map(str) };
+  }));
+
+  env.set("join", builtin("join", 2, ([sep, list]) => {
+    assertString(sep);
+    assertList(list);
+    return str(list.elements.map((el) => {
+      assertString(el);
+      return el.value;
+    }).join(sep.value));
+  }));
+
+  env.set("trim", builtin("trim", 1, ([s]) => {
+    assertString(s);
+    return str(s.value.trim());
+  }));
+
+  // Replaces every occurrence
+  env.set("replace", builtin("replace", 3, ([from, to, s]) => {
+    assertString(from);
+    assertString(to);
+    assertString(s);
+    const count = from.value === "" ? s.value.length + 1 : s.value.split(from.value).length - 1;
+    reserve(s.value.length + count * (to.value.length - from.value.length), "characters");
+    return str(s.value.replaceAll(from.value, to.value));
+  }));
+
+  // From `start` up to but not including `end`, both clamped to the string
+  env.set("substring", builtin("substring", 3, ([start, end, s]) => {
+    assertInt(start);
+    assertInt(end);
+    assertString(s);
+    return str(s.value.substring(Math.max(start.value, 0), Math.max(start.value, end.value)));
+  }));
+
+  env.set("index_of", builtin("index_of", 2, ([needle, s]) => {
+    assertString(needle);
+    assertString(s);
+    const at = s.value.indexOf(needle.value);
+    return at === -1 ? err("not found") : ok({ kind: "Int", value: at });
+  }));
+
+  env.set("contains", builtin("contains", 2, ([needle, s]) => {
+    assertString(needle);
+    assertString(s);
+    return { kind: "Bool", value: s.value.includes(needle.value) };
+  }));
+
+  env.set("starts_with", builtin("starts_with", 2, ([prefix, s]) => {
+    assertString(prefix);
+    assertString(s);
+    return { kind: "Bool", value: s.value.startsWith(prefix.value) };
+  }));
+
+  env.set("ends_with", builtin("ends_with", 2, ([suffix, s]) => {
+    assertString(suffix);
+    assertString(s);
+    return { kind: "Bool", value: s.value.endsWith(suffix.value) };
+  }));
+
+  env.set("to_upper", builtin("to_upper", 1, ([s]) => {
+    assertString(s);
+    return str(s.value.toUpperCase());
+  }));
+
+  env.set("to_lower", builtin("to_lower", 1, ([s]) => {
+    assertString(s);
+    return str(s.value.toLowerCase());
+  }));
+
+  env.set("chars", builtin("chars", 1, ([s]) => {
+    assertString(s);
+    return { kind: "List", elements: s.value.split("").map(str) };
+  }));
+
+  env.set("repeat", builtin("repeat", 2, ([n, s]) => {
+    assertInt(n);
+    assertString(s);
+    if (n.value < 0) throw new Error(`repeat expects a count of at least 0, got ${n.value}`);
+    reserve(n.value * s.value.length, "characters");
+    return str(s.value.repeat(n.value));
+  }));
+
+  // Pads to `width` with as much of `fill` repeated as fits
+  env.set("pad_left", builtin("pad_left", 3, ([width, fill, s]) => {
+    assertInt(width);
+    assertString(fill);
+    assertString(s);
+    reserve(width.value, "characters");
+    return str(s.value.padStart(width.value, fill.value));
+  }));
+
+  env.set("pad_right", builtin("pad_right", 3, ([width, fill, s]) => {
+    assertInt(width);
+    assertString(fill);
+    assertString(s);
+    reserve(width.value, "characters");
+    return str(s.value.padEnd(width.value, fill.value));
+  }));
+
+  env.set("parse_int", builtin("parse_int", 1, ([s]) => {
+    assertString(s);
+    const text = s.value.trim();
+    const value = Number(text);
+    if (!INT_TEXT.test(text) || !Number.isSafeInteger(value)) return err(`Not an integer: "${s.value}"`);
+    return ok({ kind: "Int", value });
+  }));
+
+  env.set("parse_float", builtin("parse_float", 1, ([s]) => {
+    assertString(s);
+    const text = s.value.trim();
+    const value = Number(text);
+    if (!FLOAT_TEXT.test(text) || !Number.isFinite(value)) return err(`Not a number: "${s.value}"`);
+    return ok({ kind: "Float", value });
+  }));
+
   env.set("each", builtin("each", 2, ([f, list]) => {
     assertList(list);
     list.elements.forEach((el) => applyFn(f, el));
     return { kind: "Unit" };
   }));
 
+  // Like the string builtins, the list builtins take the list last
+  env.set("range", builtin("range", 2, ([start, end]) => {
+    assertInt(start);
+    assertInt(end);
+    reserve(end.value - start.value, "elements");
+    const elements: Value[] = [];
+    for (let i = start.value; i < end.value; i++) elements.push({ kind: "Int", value: i });
+    return listOf(elements);
+  }));
+
+  env.set("reverse", builtin("reverse", 1, ([xs]) => {
+    assertList(xs);
+    return listOf([...xs.elements].reverse());
+  }));
+
+  env.set("take", builtin("take", 2, ([n, xs]) => {
+    assertInt(n);
+    assertList(xs);
+    return listOf(xs.elements.slice(0, Math.max(n.value, 0)));
+  }));
+
+  env.set("drop", builtin("drop", 2, ([n, xs]) => {
+    assertInt(n);
+    assertList(xs);
+    return listOf(xs.elements.slice(Math.max(n.value, 0)));
+  }));
+
+  // Stops at the end of the shorter list
+  env.set("zip", builtin("zip", 2, ([xs, ys]) => {
+    assertList(xs);
+    assertList(ys);
+    const length = Math.min(xs.elements.length, ys.elements.length);
+    return listOf(xs.elements.slice(0, length).map((x, i) => tupleOf(x, ys.elements[i])));
+  }));
+
+  env.set("unzip", builtin("unzip", 1, ([pairs]) => {
+    assertList(pairs);
+    const firsts: Value[] = [];
+    const seconds: Value[] = [];
+    for (const pair of pairs.elements) {
+      if (pair.kind !== "Tuple" || pair.elements.length !== 2) throw new Error(`unzip expects pairs, got ${prettyPrint(pair)}`);
+      firsts.push(pair.elements[0]);
+      seconds.push(pair.elements[1]);
+    }
+    return tupleOf(listOf(firsts), listOf(seconds));
+  }));
+
+  env.set("flat_map", builtin("flat_map", 2, ([f, xs]) => {
+    assertList(xs);
+    const out: Value[] = [];
+    for (const el of xs.elements) {
+      const result = applyFn(f, el);
+      assertList(result);
+      reserve(out.length + result.elements.length, "elements");
+      out.push(...result.elements);
+    }
+    return listOf(out);
+  }));
+
+  env.set("find", builtin("find", 2, ([f, xs]) => {
+    assertList(xs);
+    const found = xs.elements.find((el) => holds(f, el));
+    return found === undefined ? err("not found") : ok(found);
+  }));
+
+  env.set("any", builtin("any", 2, ([f, xs]) => {
+    assertList(xs);
+    return { kind: "Bool", value: xs.elements.some((el) => holds(f, el)) };
+  }));
+
+  env.set("all", builtin("all", 2, ([f, xs]) => {
+    assertList(xs);
+    return { kind: "Bool", value: xs.elements.every((el) => holds(f, el)) };
+  }));
+
+  env.set("sum", builtin("sum", 1, ([xs]) => {
+    assertList(xs);
+    return {
+      kind: "Int",
+      value: xs.elements.reduce((total, el) => {
+        assertInt(el);
+        return total + el.value;
+      }, 0),
+    };
+  }));
+
+  // Sorting is stable, ordering values as compareValues does
+  env.set("sort", builtin("sort", 1, ([xs]) => {
+    assertList(xs);
+    return listOf([...xs.elements].sort(compareValues));
+  }));
+
+  // Calls the key function once per element
+  env.set("sort_by", builtin("sort_by", 2, ([f, xs]) => {
+    assertList(xs);
+    const keyed = xs.elements.map((el) => ({ key: applyFn(f, el), el }));
+    return listOf(keyed.sort((a, b) => compareValues(a.key, b.key)).map(({ el }) => el));
+  }));
+
+  // Groups in the order their keys first appear, each keeping its elements' order
+  env.set("group_by", builtin("group_by", 2, ([f, xs]) => {
+    assertList(xs);
+    const groups: { key: Value; elements: Value[] }[] = [];
+    for (const el of xs.elements) {
+      const key = applyFn(f, el);
+      const group = groups.find((g) => valuesEqual(g.key, key));
+      if (group) group.elements.push(el);
+      else groups.push({ key, elements: [el] });
+    }
+    return listOf(groups.map((g) => tupleOf(g.key, listOf(g.elements))));
+  }));
+
+  // Keeps the first of each set of equal elements
+  env.set("unique", builtin("unique", 1, ([xs]) => {
+    assertList(xs);
+    const kept: Value[] = [];
+    for (const el of xs.elements) {
+      if (!kept.some((k) => valuesEqual(k, el))) kept.push(el);
+    }
+    return listOf(kept);
+  }));
+
+  // The elements the predicate holds for, then the rest
+  env.set("partition", builtin("partition", 2, ([f, xs]) => {
+    assertList(xs);
+    const yes: Value[] = [];
+    const no: Value[] = [];
+    for (const el of xs.elements) (holds(f, el) ? yes : no).push(el);
+    return tupleOf(listOf(yes), listOf(no));
+  }));
+
+  env.set("enumerate", builtin("enumerate", 1, ([xs]) => {
+    assertList(xs);
+    return listOf(xs.elements.map((el, i) => tupleOf({ kind: "Int", value: i }, el)));
+  }));
+
+  env.set("nth", builtin("nth", 2, ([n, xs]) => {
+    assertInt(n);
+    assertList(xs);
+    if (n.value < 0 || n.value >= xs.elements.length) return err("index out of range");
+    return ok(xs.elements[n.value]);
+  }));
+
+  // `xs |> append(ys)` is xs followed by ys
+  env.set("append", builtin("append", 2, ([ys, xs]) => {
+    assertList(ys);
+    assertList(xs);
+    reserve(xs.elements.length + ys.elements.length, "elements");
+    return listOf([...xs.elements, ...ys.elements]);
+  }));
+
+  env.set("json_parse", builtin("json_parse", 1, ([s]) => {
+    if (s.kind !== "String") throw new Error("json_parse expects String");
+    try {
+      return { kind: "Tag", tag: "Ok", args: [toRill(JSON.parse(s.value))] };
+    } catch (e: any) {
+      return { kind: "Tag", tag: "Err", args: [{ kind: "String", value: e.message }] };
+    }
+  }));
+
+  env.set("json_stringify", builtin("json_stringify", 1, ([v]) => {
+    return { kind: "String", value: JSON.stringify(fromRill(v)) };
+  }));
+
+  // The expected value comes first, so a value can be piped into the check
+  env.set("assert", builtin("assert", 1, ([v]) => {
+    assertBool(v);
+    if (!v.value) throw new AssertionFailure("Assertion failed", "true", "false");
+    return { kind: "Unit" };
+  }));
+
+  env.set("assert_eq", builtin("assert_eq", 2, ([expected, actual]) => {
+    if (!valuesEqual(expected, actual)) throw new AssertionFailure("Values are not equal", prettyPrint(expected), prettyPrint(actual));
+    return { kind: "Unit" };
+  }));
+
+  env.set("assert_ne", builtin("assert_ne", 2, ([unexpected, actual]) => {
+    if (valuesEqual(unexpected, actual)) throw new AssertionFailure("Values are equal", null, prettyPrint(actual));
+    return { kind: "Unit" };
+  }));
+
   return env;
 }
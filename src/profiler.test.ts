@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { Profiler } from "./profiler";
+import { runSource } from "./runner";
+import { Value } from "./values";
+
+// A clock that moves on a millisecond each time it is read
+function ticking(): () => number {
+  let now = 0;
+  return () => now++;
+}
+
+const closure = (name?: string): Value => ({ kind: "Closure", param: "x", body: { kind: "IntLit", value: 1, span: { start: { line: 2, col: 5, offset: 10 }, end: { line: 2, col: 6, offset: 11 } } }, env: new Map(), name });
+const builtin = (name: string): Value => ({ kind: "BuiltinFn", name, arity: 1, applied: [], fn: () => ({ kind: "Unit" }) });
+
+describe("Profiler", () => {
+  it("attributes time to each function, leaving out its callees' from its self time", () => {
+    const profiler = new Profiler(ticking());
+    // outer: 1 → 6, map: 2 → 5, f: 3 → 4
+    profiler.enter(closure("outer"));
+    profiler.enter(builtin("map"));
+    profiler.enter(closure("f"));
+    profiler.exit();
+    profiler.exit();
+    profiler.exit();
+    expect(profiler.results()).toEqual([
+      { name: "map", builtin: true, calls: 1, total: 3, self: 2 },
+      { name: "outer", builtin: false, calls: 1, total: 5, self: 2 },
+      { name: "f", builtin: false, calls: 1, total: 1, self: 1 },
+    ]);
+  });
+
+  it("counts a recursive function's time once", () => {
+    const profiler = new Profiler(ticking());
+    profiler.enter(closure("loop"));
+    profiler.enter(closure("loop"));
+    profiler.exit();
+    profiler.exit();
+    expect(profiler.results()).toEqual([{ name: "loop", builtin: false, calls: 2, total: 3, self: 3 }]);
+  });
+
+  it("names anonymous functions by where their body starts", () => {
+    const profiler = new Profiler(ticking());
+    profiler.enter(closure());
+    profiler.exit();
+    expect(profiler.results()[0].name).toBe("<fn at line 2, col 5>");
+  });
+
+  it("prints a table, the most self time first", () => {
+    const profiler = new Profiler(ticking());
+    profiler.enter(closure("outer"));
+    profiler.enter(builtin("map"));
+    profiler.exit();
+    profiler.enter(builtin("map"));
+    profiler.exit();
+    profiler.exit();
+    expect(profiler.table()).toBe([
+      "Function       Calls  Total ms  Self ms",
+      "outer              1      5.00     3.00",
+      "map (builtin)      2      2.00     2.00",
+    ].join("\n"));
+  });
+
+  it("records the calls as Chrome trace events", () => {
+    const profiler = new Profiler(ticking());
+    profiler.enter(closure("f"));
+    profiler.exit();
+    expect(profiler.trace()).toEqual({
+      traceEvents: [
+        { name: "f", ph: "B", ts: 1000, pid: 1, tid: 1 },
+        { name: "f", ph: "E", ts: 2000, pid: 1, tid: 1 },
+      ],
+      displayTimeUnit: "ms",
+    });
+  });
+
+  it("profiles a program run with it", () => {
+    const profiler = new Profiler();
+    runSource("let square = fn(x) -> x * x\n[1, 2, 3] |> map(square)", { onCall: profiler });
+    expect(profiler.results().map((p) => [p.name, p.calls]).sort()).toEqual([["map", 1], ["square", 3]]);
+    const phases = profiler.events.map((e) => e.ph).join("");
+    expect(phases).toBe("BBEBEBEE");
+  });
+});
@@ -0,0 +1,116 @@
+import { CallHook } from "./evaluator";
+import { Value } from "./values";
+import { formatSpan } from "./span";
+
+// What the profiler measured of one function, in milliseconds. `total` counts
+// a recursive function's time once, from its outermost call; `self` leaves out
+// the time spent in the functions it called.
+export interface FunctionProfile {
+  name: string;
+  builtin: boolean;
+  calls: number;
+  total: number;
+  self: number;
+}
+
+// An event in the Chrome trace format, which chrome://tracing, Perfetto and
+// speedscope all open: "B" begins a call and "E" ends it, at `ts` microseconds
+export interface TraceEvent {
+  name: string;
+  ph: "B" | "E";
+  ts: number;
+  pid: number;
+  tid: number;
+}
+
+interface Frame {
+  profile: FunctionProfile;
+  start: number;
+  // Time spent in the calls this one made
+  children: number;
+}
+
+// Attributes evaluation time and calls to each function, as a call hook.
+// Functions are known by the `let` that bound them, builtins by their name and
+// anonymous functions by where their body starts.
+export class Profiler implements CallHook {
+  private profiles = new Map<string, FunctionProfile>();
+  private stack: Frame[] = [];
+  // Calls in progress of each function, so recursion counts its time once
+  private active = new Map<FunctionProfile, number>();
+  readonly events: TraceEvent[] = [];
+  private readonly origin: number;
+
+  constructor(private now: () => number = () => performance.now()) {
+    this.origin = now();
+  }
+
+  enter(fn: Value): void {
+    const profile = this.profileOf(fn);
+    const start = this.now();
+    profile.calls++;
+    this.active.set(profile, (this.active.get(profile) ?? 0) + 1);
+    this.stack.push({ profile, start, children: 0 });
+    this.events.push(this.event(profile.name, "B", start));
+  }
+
+  exit(): void {
+    const frame = this.stack.pop();
+    if (!frame) return;
+    const end = this.now();
+    const elapsed = end - frame.start;
+    const { profile } = frame;
+    profile.self += elapsed - frame.children;
+    const active = this.active.get(profile)! - 1;
+    this.active.set(profile, active);
+    if (active === 0) profile.total += elapsed;
+    const caller = this.stack[this.stack.length - 1];
+    if (caller) caller.children += elapsed;
+    this.events.push(this.event(profile.name, "E", end));
+  }
+
+  // Every function called, the most self time first
+  results(): FunctionProfile[] {
+    return [...this.profiles.values()].sort((a, b) => b.self - a.self || b.calls - a.calls || a.name.localeCompare(b.name));
+  }
+
+  // The results as a table for a terminal
+  table(): string {
+    const header = ["Function", "Calls", "Total ms", "Self ms"];
+    const rows = this.results().map((p) => [
+      p.builtin ? `${p.name} (builtin)` : p.name,
+      String(p.calls),
+      p.total.toFixed(2),
+      p.self.toFixed(2),
+    ]);
+    const widths = header.map((_, i) => Math.max(...[header, ...rows].map((r) => r[i].length)));
+    // Names line up on the left and numbers on the right
+    return [header, ...rows]
+      .map((r) => r.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  "))
+      .join("\n");
+  }
+
+  // The calls as a trace for chrome://tracing, Perfetto or speedscope
+  trace(): { traceEvents: TraceEvent[]; displayTimeUnit: "ms" } {
+    return { traceEvents: this.events, displayTimeUnit: "ms" };
+  }
+
+  private profileOf(fn: Value): FunctionProfile {
+    const builtin = fn.kind === "BuiltinFn";
+    let name: string;
+    if (fn.kind === "BuiltinFn") name = fn.name;
+    else if (fn.kind === "Closure") name = fn.name ?? `<fn at ${formatSpan(fn.body.span)}>`;
+    else name = `<${fn.kind}>`;
+    const key = `${builtin ? "builtin" : "fn"}:${name}`;
+    let profile = this.profiles.get(key);
+    if (!profile) {
+      profile = { name, builtin, calls: 0, total: 0, self: 0 };
+      this.profiles.set(key, profile);
+    }
+    return profile;
+  }
+
+  private event(name: string, ph: "B" | "E", at: number): TraceEvent {
+    return { name, ph, ts: Math.round((at - this.origin) * 1000), pid: 1, tid: 1 };
+  }
+}
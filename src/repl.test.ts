@@ -36,4 +36,30 @@ describe("REPL Session", () => {
     const result2 = session.eval("1 + 2");
     expect(result2.output).toBe("3");
   });
+
+  it("type checks inputs against prelude signatures", () => {
+    const session = new ReplSession();
+    expect(session.eval("[1, 2] |> map(fn(x) -> x + 1)").output).toBe("[2, 3]");
+    expect(session.eval('[1, 2] |> map(fn(x) -> x ++ "!")').error).toBeTruthy();
+  });
+
+  it("keeps let bindings polymorphic", () => {
+    const session = new ReplSession();
+    session.eval("let id = fn(x) -> x");
+    expect(session.eval("id(1)").output).toBe("1");
+    expect(session.eval('id("a")').output).toBe('"a"');
+  });
+
+  it("accepts several declarations in one input", () => {
+    const session = new ReplSession();
+    expect(session.eval("let x = 1\nlet y = x + 1").output).toBe("x = 1\ny = 2");
+    expect(session.eval("x + y").output).toBe("3");
+  });
+
+  it("supports recursive and type declarations", () => {
+    const session = new ReplSession();
+    session.eval("type Nat = Zero | Succ(Nat)");
+    session.eval("let rec count = fn(n) -> match n { Zero -> 0, Succ(m) -> 1 + count(m) }");
+    expect(session.eval("count(Succ(Succ(Zero)))").output).toBe("2");
+  });
 });
@@ -1,11 +1,12 @@
+import { boundNames } from "./ast";
 import { lex } from "./lexer";
-import { parse } from "./parser";
-import { evaluate } from "./evaluator";
-import { infer } from "./typechecker";
+import { parseProgram } from "./parser";
+import { evaluateProgram } from "./evaluator";
+import { InferContext, inferProgram, TypeEnv } from "./typechecker";
 import { prettyPrint, Value } from "./values";
-import { prettyType, Type, resetTypeVarCounter } from "./types";
-import { createPrelude } from "./prelude";
-import { TokenKind } from "./token";
+import { prettyType } from "./types";
+import { createPrelude, createPreludeTypes } from "./prelude";
+import { ModuleLoader, withEntries } from "./modules";
 
 interface ReplResult {
   output?: string;
@@ -14,11 +15,14 @@ interface ReplResult {
 
 export class ReplSession {
   private valueEnv: Map<string, Value>;
-  private typeEnv: Map<string, { vars: number[]; type: Type }>;
+  private typeEnv: TypeEnv;
+  // Names bound by the user, in the order they were first declared
+  private names: string[] = [];
+  private loader = new ModuleLoader();
 
   constructor() {
     this.valueEnv = createPrelude();
-    this.typeEnv = new Map();
+    this.typeEnv = createPreludeTypes();
   }
 
   eval(input: string): ReplResult {
@@ -28,65 +32,38 @@ export class ReplSession {
     if (trimmed.startsWith(":")) return this.handleCommand(trimmed);
 
     try {
-      // Check if this is a top-level let binding (without `in`)
-      const tokens = lex(trimmed);
-      if (tokens.length > 0 && tokens[0].kind === TokenKind.Let) {
-        return this.handleLetBinding(trimmed, tokens);
+      // Each input is a program: its declarations extend the session
+      const program = parseProgram(lex(trimmed));
+      const imports = this.loader.link(program, process.cwd());
+      const types = inferProgram(program, withEntries(new Map(this.typeEnv), imports.types), new InferContext(trimmed));
+      const result = evaluateProgram(program, withEntries(new Map(this.valueEnv), imports.values));
+
+      // Module entries are only needed while this input runs
+      for (const path of imports.types.keys()) {
+        types.env.delete(path);
+        result.env.delete(path);
       }
-
-      // Regular expression
-      const ast = parse(tokens);
-      // Type check (best-effort — skip if bindings are missing from type env)
-      try {
-        resetTypeVarCounter();
-        infer(ast, new Map(this.typeEnv), trimmed);
-      } catch (e: any) {
-        // If it's a real type error (not just missing binding), report it
-        if (e.message && !e.message.startsWith("Undefined variable")) {
-          return { error: e.message };
+      this.typeEnv = types.env;
+      this.valueEnv = result.env;
+
+      const lines: string[] = [];
+      for (const decl of program.decls) {
+        if (decl.kind === "TypeDef") {
+          lines.push(`type ${decl.name}`);
+          continue;
+        }
+        for (const name of boundNames(decl)) {
+          if (!this.names.includes(name)) this.names.push(name);
+          lines.push(`${name} = ${prettyPrint(result.env.get(name)!)}`);
         }
       }
-      const result = evaluate(ast, new Map(this.valueEnv));
-      return { output: prettyPrint(result) };
+      if (program.body) lines.push(prettyPrint(result.value));
+      return { output: lines.join("\n") };
     } catch (e: any) {
       return { error: e.message };
     }
   }
 
-  private handleLetBinding(input: string, tokens: import("./token").Token[]): ReplResult {
-    // Check if there's an `in` keyword — if so, treat as normal expression
-    const hasIn = tokens.some(t => t.kind === TokenKind.In);
-    if (hasIn) {
-      const ast = parse(tokens);
-      resetTypeVarCounter();
-      infer(ast, undefined, input);
-      const result = evaluate(ast, new Map(this.valueEnv));
-      return { output: prettyPrint(result) };
-    }
-
-    // Top-level let: parse `let [rec] name = value`
-    let i = 1; // skip 'let'
-    let rec = false;
-    if (tokens[i]?.kind === TokenKind.Rec) {
-      rec = true;
-      i++;
-    }
-    const name = tokens[i]?.lexeme;
-    if (!name) return { error: "Expected variable name after let" };
-
-    // Construct `let name = value in name` so the existing parser works
-    const augmented = `${input} in ${name}`;
-    const ast = parse(lex(augmented));
-    resetTypeVarCounter();
-    const type = infer(ast, undefined, augmented);
-    const result = evaluate(ast, new Map(this.valueEnv));
-
-    this.valueEnv.set(name, result);
-    this.typeEnv.set(name, { vars: [], type });
-
-    return { output: `${name} = ${prettyPrint(result)}` };
-  }
-
   private handleCommand(input: string): ReplResult {
     const parts = input.split(/\s+/);
     const cmd = parts[0];
@@ -96,19 +73,14 @@ export class ReplSession {
         const name = parts[1];
         if (!name) return { error: "Usage: :type <name>" };
         const scheme = this.typeEnv.get(name);
-        if (!scheme) {
-          // Try inferring from a lookup
-          const val = this.valueEnv.get(name);
-          if (!val) return { error: `Unknown binding: ${name}` };
-          return { output: val.kind };
-        }
+        if (!scheme) return { error: `Unknown binding: ${name}` };
         return { output: prettyType(scheme.type) };
       }
 
       case ":env": {
         const entries: string[] = [];
-        for (const [name, scheme] of this.typeEnv) {
-          entries.push(`${name} : ${prettyType(scheme.type)}`);
+        for (const name of this.names) {
+          entries.push(`${name} : ${prettyType(this.typeEnv.get(name)!.type)}`);
         }
         return { output: entries.join("\n") || "(empty)" };
       }
@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { runSource } from "./runner";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { runFile, runSource } from "./runner";
 
 describe("File Runner", () => {
   it("runs a complete program", () => {
@@ -25,4 +28,88 @@ describe("File Runner", () => {
     `);
     expect(result.output).toBe("84");
   });
+
+  it("reports type errors in programs using builtins", () => {
+    const result = runSource('[1, 2, 3] |> filter(fn(x) -> x + 1)');
+    expect(result.error).toContain("line 1");
+  });
+
+  it("reports undefined variables before running", () => {
+    const result = runSource("[1, 2] |> mapp(fn(x) -> x)");
+    expect(result.error).toContain("Undefined variable: mapp");
+  });
+
+  it("reports which execution budget stopped a program", () => {
+    const result = runSource("let rec spin = fn(n) -> spin(n)\nspin(0)", { maxSteps: 500 });
+    expect(result.limit).toBe("steps");
+    expect(result.error).toContain("Step limit of 500 exceeded");
+    expect(result.error).toContain("line 1");
+  });
+
+  it("applies the budgets to imported modules", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rill-runner-"));
+    fs.writeFileSync(path.join(dir, "loop.lv"), "let rec count = fn(n) -> match n == 0 { true -> 0, false -> count(n - 1) }\nlet done = count(100000)");
+    fs.writeFileSync(path.join(dir, "main.lv"), 'import "./loop.lv" as loop\nloop.done');
+    const result = runFile(path.join(dir, "main.lv"), { maxSteps: 500 });
+    expect(result.limit).toBe("steps");
+    expect(result.diagnostics![0].code).toBe("E0302");
+    expect(result.error).toContain("In module loop.lv");
+  });
+
+  it("shares one budget between the imported modules and the program", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rill-runner-"));
+    const count = "let rec count = fn(n) -> match n == 0 { true -> 0, false -> count(n - 1) }\nlet done = count(200)";
+    fs.writeFileSync(path.join(dir, "a.lv"), count);
+    fs.writeFileSync(path.join(dir, "b.lv"), count);
+    fs.writeFileSync(path.join(dir, "one.lv"), 'import "./a.lv" as a\na.done');
+    fs.writeFileSync(path.join(dir, "two.lv"), 'import "./a.lv" as a\nimport "./b.lv" as b\na.done + b.done');
+    // Either module fits the budget alone, but not both together
+    expect(runFile(path.join(dir, "one.lv"), { maxSteps: 2000 }).output).toBe("0");
+    const result = runFile(path.join(dir, "two.lv"), { maxSteps: 2000 });
+    expect(result.limit).toBe("steps");
+    expect(result.error).toContain("In module b.lv");
+  });
+
+  it("reports a file it can't read", () => {
+    const file = path.join(os.tmpdir(), "rill-missing.lv");
+    const result = runFile(file);
+    expect(result.diagnostics!.map((d) => [d.code, d.file])).toEqual([["E0402", file]]);
+    expect(result.error).toMatch(/^Error reading file: ENOENT/);
+  });
+
+  it("returns structured diagnostics with codes and labels", () => {
+    const result = runSource('let x = 1\nx ++ "!"', { file: "main.lv" });
+    const [d] = result.diagnostics!;
+    expect(d.code).toBe("E0201");
+    expect(d.file).toBe("main.lv");
+    expect(d.span?.start.line).toBe(2);
+    expect(d.labels.map((l) => l.message)).toEqual(["this is Int", "this is String"]);
+    expect(result.error).toContain("error[E0201]");
+    expect(result.error).toContain('2 | x ++ "!"');
+  });
+
+  it("gives each kind of failure its own code", () => {
+    const codeOf = (source: string) => runSource(source, { maxSteps: 500 }).diagnostics![0].code;
+    expect(codeOf("let x = ")).toBe("E0101");
+    expect(codeOf("missing + 1")).toBe("E0202");
+    expect(codeOf("let rec spin = fn(n) -> spin(n)\nspin(0)")).toBe("E0302");
+  });
+
+  it("reports runtime errors with their location and the calls they escaped", () => {
+    const result = runSource('let name = fn(n) -> match n { 1 -> "one" }\nlet shout = fn(n) -> name(n) ++ "!"\nshout(2)');
+    const [d] = result.diagnostics!;
+    expect(d.code).toBe("E0301");
+    expect(d.span?.start).toMatchObject({ line: 1, col: 21 });
+    expect(result.error).toContain("error[E0301]: No matching pattern");
+    expect(result.error).toContain('1 | let name = fn(n) -> match n { 1 -> "one" }');
+    expect(result.error).toContain("= note: in name, called at line 2, col 22");
+    expect(result.error).toContain("= note: in shout, called at line 3, col 1");
+  });
+
+  it("reports every syntax error at once", () => {
+    const result = runSource("let xs = [1, 2 3]\nlet r = { a: 1, b 2 }\nxs");
+    expect(result.diagnostics!.map((d) => d.span?.start.line)).toEqual([1, 2]);
+    expect(result.error).toContain("1 | let xs = [1, 2 3]");
+    expect(result.error).toContain("2 | let r = { a: 1, b 2 }");
+  });
 });
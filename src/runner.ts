@@ -1,38 +1,71 @@
+import * as fs from "node:fs";
 import { lex } from "./lexer";
-import { parse } from "./parser";
-import { evaluate } from "./evaluator";
-import { infer } from "./typechecker";
+import { parseProgram } from "./parser";
+import { evaluateProgram, EvalOptions, startBudget } from "./evaluator";
+import { InferContext, inferProgram } from "./typechecker";
 import { prettyPrint } from "./values";
-import { resetTypeVarCounter } from "./types";
-import { createPrelude } from "./prelude";
-import { RillError } from "./errors";
+import { createPrelude, createPreludeTypes } from "./prelude";
+import { ModuleLoader, withEntries } from "./modules";
+import { Limit, RillLimitError, RillModuleError, toDiagnostics } from "./errors";
+import { Diagnostic, fileNotReadable, renderDiagnostic } from "./diagnostics";
 
-interface RunResult {
+export interface RunResult {
   output?: string;
+  // The diagnostics, rendered for a terminal
   error?: string;
+  diagnostics?: Diagnostic[];
+  // Which budget stopped the program, when one did
+  limit?: Limit;
 }
 
-export function runSource(source: string): RunResult {
+export interface RunOptions extends EvalOptions {
+  // The file the source was read from; imports resolve relative to it
+  // (or to the working directory when absent)
+  file?: string;
+  loader?: ModuleLoader;
+}
+
+// The loader given, or one running imported modules within the same budgets:
+// pass options from `startBudget` to share one budget with the main program
+export function loaderFor(options: RunOptions): ModuleLoader {
+  const { maxSteps, timeoutMs, maxAllocation, budget } = options;
+  return options.loader ?? new ModuleLoader(undefined, { maxSteps, timeoutMs, maxAllocation, budget });
+}
+
+export function runSource(source: string, options: RunOptions = {}): RunResult {
   try {
     const tokens = lex(source);
-    const ast = parse(tokens);
-
-    // Type check — only block on RillError (formatted type errors with source info)
-    // Skip TypeError from inference limitations (missing prelude types, no sum types)
-    resetTypeVarCounter();
-    try {
-      infer(ast, undefined, source);
-    } catch (e: any) {
-      if (e instanceof RillError) {
-        return { error: e.message };
-      }
-    }
+    const ast = parseProgram(tokens);
+
+    // Imported modules and the program draw on one budget
+    const run = startBudget(options);
+    const loader = loaderFor(run);
+    const imports = options.file ? loader.linkFile(ast, options.file) : loader.link(ast, process.cwd());
+
+    // Type check against the prelude's signatures before running anything
+    inferProgram(ast, withEntries(createPreludeTypes(), imports.types), new InferContext(source));
 
     // Evaluate
-    const env = createPrelude();
-    const result = evaluate(ast, env);
-    return { output: prettyPrint(result) };
+    const env = withEntries(createPrelude(), imports.values);
+    const result = evaluateProgram(ast, env, run);
+    return { output: prettyPrint(result.value) };
   } catch (e: any) {
-    return { error: e.message };
+    const diagnostics = toDiagnostics(e).map((d) => ({ ...d, file: d.file ?? options.file }));
+    // Errors in imported modules are already rendered against the module's source
+    const error = e instanceof RillModuleError ? e.message : diagnostics.map((d) => renderDiagnostic(d, source)).join("\n\n");
+    const result: RunResult = { error, diagnostics };
+    if (e instanceof RillLimitError || e instanceof RillModuleError) result.limit = e.limit;
+    return result;
+  }
+}
+
+export function runFile(file: string, options: RunOptions = {}): RunResult {
+  let source: string;
+  try {
+    source = fs.readFileSync(file, "utf-8");
+  } catch (e) {
+    const diagnostic = fileNotReadable(file, e);
+    return { error: diagnostic.message, diagnostics: [diagnostic] };
   }
+  return runSource(source, { ...options, file });
 }
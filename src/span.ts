@@ -12,3 +12,11 @@ export interface Span {
 export function formatSpan(span: Span): string {
   return `line ${span.start.line}, col ${span.start.col}`;
 }
+
+// The first line of the source a span covers, cut to `width` characters;
+// " ..." marks anything left out
+export function excerpt(source: string, span: Span, width: number): string {
+  const text = source.slice(span.start.offset, span.end.offset);
+  const line = text.split("\n")[0].trim();
+  return line.length > width || line !== text.trim() ? `${line.slice(0, width)} ...` : line;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { findTestFiles, runTestFile, runTests, showComparison, testReport, testsFailed } from "./testing";
+import { runSource } from "./runner";
+
+const SOURCE = [
+  "let add = fn(a, b) -> a + b",
+  'test "adds" = assert_eq(3, add(1, 2))',
+  'test "adds lists" = [1, 2] |> map(fn(x) -> add(x, 1)) |> assert_eq([2, 4])',
+  'test "compares" = add(2, 2) == 5',
+  'test "unwraps" = Ok(head([])? + 1)',
+  'test "divides" = 10 / add(0, 0) |> fn(n) -> assert_eq(0, n)',
+].join("\n");
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "rill-test-"));
+}
+
+describe("runTests", () => {
+  it("runs each test, reporting the ones that fail", () => {
+    const outcomes = runTests(SOURCE);
+    expect(outcomes.map((t) => [t.name, t.failure?.message ?? "ok"])).toEqual([
+      ["adds", "ok"],
+      ["adds lists", "Values are not equal"],
+      ["compares", "Test evaluated to false"],
+      ["unwraps", 'Test evaluated to Err("empty list")'],
+      ["divides", "Values are not equal"],
+    ]);
+    expect(outcomes[1].comparison).toEqual({ expected: "[2, 4]", actual: "[2, 3]" });
+    expect(outcomes[1].failure!.span!.start.line).toBe(3);
+  });
+
+  it("runs a test only after the declarations before it", () => {
+    const outcomes = runTests('let xs = [1]\ntest "one" = assert_eq(1, length(xs))\nlet ys = [1, 2]\ntest "two" = assert_eq(2, length(ys))');
+    expect(outcomes.every((t) => !t.failure)).toBe(true);
+  });
+
+  it("gives each test its own budget", () => {
+    const source = 'let rec loop = fn(n) -> loop(n + 1)\ntest "spins" = loop(0)\ntest "runs" = true';
+    const [spins, runs] = runTests(source, { maxSteps: 1000 });
+    expect(spins.failure?.code).toBe("E0302");
+    expect(runs.failure).toBeUndefined();
+  });
+
+  it("throws when the program doesn't check", () => {
+    expect(() => runTests('test "bad" = 1 ++ "a"')).toThrow("Cannot unify");
+  });
+
+  it("doesn't run tests when the program runs", () => {
+    expect(runSource('test "fails" = assert(false)\n1')).toEqual({ output: "1" });
+  });
+});
+
+describe("test files", () => {
+  it("finds *_test.lv files in directories, skipping hidden ones and node_modules", () => {
+    const dir = tempDir();
+    for (const file of ["b_test.lv", "a_test.lv", "main.lv", "sub/c_test.lv", ".git/d_test.lv", "node_modules/e_test.lv"]) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), "");
+    }
+    expect(findTestFiles([dir]).map((f) => path.relative(dir, f))).toEqual(["a_test.lv", "b_test.lv", path.join("sub", "c_test.lv")]);
+    expect(findTestFiles([path.join(dir, "main.lv")])).toEqual([path.join(dir, "main.lv")]);
+  });
+
+  it("reports each file's tests with the values failed assertions compared", () => {
+    const dir = tempDir();
+    const file = path.join(dir, "math_test.lv");
+    fs.writeFileSync(file, SOURCE);
+    const results = [runTestFile(file)];
+    const report = testReport(results);
+    expect(report).toContain(`${file}\n  ok   adds\n  FAIL adds lists\n    error[E0305]: Values are not equal`);
+    expect(report).toContain("    expected: [2, 4]\n    actual:   [2, 3]\n" + " ".repeat(18) + "^");
+    expect(report).toContain("3 | test \"adds lists\"");
+    expect(report.endsWith("5 tests: 1 passed, 4 failed")).toBe(true);
+    expect(testsFailed(results)).toBe(true);
+  });
+
+  it("counts a file that doesn't run as a failure", () => {
+    const file = path.join(tempDir(), "broken_test.lv");
+    fs.writeFileSync(file, "let x = (1 +");
+    const result = runTestFile(file);
+    expect(result.diagnostics?.[0]).toMatchObject({ code: "E0101", file });
+    expect(testReport([result])).toContain("0 tests: 0 passed, 1 failed");
+    expect(testsFailed([result])).toBe(true);
+  });
+
+  it("passes when every test does", () => {
+    const file = path.join(tempDir(), "ok_test.lv");
+    fs.writeFileSync(file, 'test "truth" = true');
+    expect(testsFailed([runTestFile(file)])).toBe(false);
+  });
+});
+
+describe("showComparison", () => {
+  it("points at the first difference", () => {
+    expect(showComparison({ expected: '"abc"', actual: '"abd"' })).toBe('expected: "abc"\nactual:   "abd"\n             ^');
+    expect(showComparison({ expected: "[1]", actual: "[1, 2]" })).toBe("expected: [1]\nactual:   [1, 2]\n            ^");
+    expect(showComparison({ expected: null, actual: "1" })).toBe("value:    1");
+  });
+});
@@ -0,0 +1,185 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { lex } from "./lexer";
+import { parseProgram } from "./parser";
+import { evaluate, evaluateProgram, startBudget } from "./evaluator";
+import { InferContext, inferProgram } from "./typechecker";
+import { Value, prettyPrint } from "./values";
+import { createPrelude, createPreludeTypes } from "./prelude";
+import { withEntries } from "./modules";
+import { RillAssertionError, toDiagnostics } from "./errors";
+import { Codes, Diagnostic, fileNotReadable, renderDiagnostic } from "./diagnostics";
+import { RunOptions, loaderFor } from "./runner";
+import { Program } from "./ast";
+import { Span } from "./span";
+
+// The values a failed assertion compared, as prettyPrint shows them.
+// `expected` is null when there was no single expected value.
+export interface Comparison {
+  expected: string | null;
+  actual: string;
+}
+
+export interface TestOutcome {
+  name: string;
+  span: Span;
+  // Why the test failed; absent when it passed
+  failure?: Diagnostic;
+  comparison?: Comparison;
+}
+
+export interface TestFileResult {
+  file: string;
+  tests: TestOutcome[];
+  // The file's program, when it parsed
+  program?: Program;
+  // The diagnostics that kept the file from running at all, rendered
+  error?: string;
+  diagnostics?: Diagnostic[];
+}
+
+// Test files are found by this suffix when `rill test` is given a directory
+const TEST_FILE = /_test\.lv$/;
+
+export function isTestFile(file: string): boolean {
+  return TEST_FILE.test(file);
+}
+
+// Runs the `test` declarations of a program, each on its own with a fresh
+// budget, after the rest of the program has run. A test fails if it raises an
+// error, including a failed assertion, or if its value is false or an Err.
+// Throws when the program doesn't check or its declarations fail to run.
+export function runTests(source: string, options: RunOptions = {}): TestOutcome[] {
+  return runParsed(parseProgram(lex(source)), source, options);
+}
+
+function runParsed(ast: Program, source: string, options: RunOptions): TestOutcome[] {
+  // Imported modules and the declarations share one budget; each test gets its own
+  const run = startBudget(options);
+  const loader = loaderFor(run);
+  const imports = options.file ? loader.linkFile(ast, options.file) : loader.link(ast, process.cwd());
+  inferProgram(ast, withEntries(createPreludeTypes(), imports.types), new InferContext(source));
+  const { tests } = evaluateProgram(ast, withEntries(createPrelude(), imports.values), run);
+
+  return tests.map(({ decl, env }) => {
+    const outcome: TestOutcome = { name: decl.name, span: decl.span };
+    let value: Value;
+    try {
+      value = evaluate(decl.body, env, options);
+    } catch (e) {
+      outcome.failure = { ...toDiagnostics(e)[0], file: options.file };
+      if (e instanceof RillAssertionError) outcome.comparison = { expected: e.expected, actual: e.actual };
+      return outcome;
+    }
+    const failed = (value.kind === "Bool" && !value.value) || (value.kind === "Tag" && value.tag === "Err");
+    if (failed) {
+      outcome.failure = {
+        code: Codes.AssertionFailed,
+        severity: "error",
+        message: `Test evaluated to ${prettyPrint(value)}`,
+        span: decl.body.span,
+        labels: [],
+        notes: [],
+        file: options.file,
+      };
+    }
+    return outcome;
+  });
+}
+
+export function runTestFile(file: string, options: RunOptions = {}): TestFileResult {
+  let source: string;
+  try {
+    source = fs.readFileSync(file, "utf-8");
+  } catch (e) {
+    const diagnostic = fileNotReadable(file, e);
+    return { file, tests: [], error: diagnostic.message, diagnostics: [diagnostic] };
+  }
+  let program: Program | undefined;
+  try {
+    program = parseProgram(lex(source));
+    return { file, tests: runParsed(program, source, { ...options, file }), program };
+  } catch (e) {
+    const diagnostics = toDiagnostics(e).map((d) => ({ ...d, file: d.file ?? file }));
+    return { file, tests: [], program, error: diagnostics.map((d) => renderDiagnostic(d, source)).join("\n\n"), diagnostics };
+  }
+}
+
+// The test files under each path, in order: a file is taken as given, and a
+// directory is searched for `*_test.lv` files, skipping node_modules and
+// hidden directories
+export function findTestFiles(paths: string[]): string[] {
+  const found: string[] = [];
+  const walk = (dir: string) => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== "node_modules" && !entry.name.startsWith(".")) walk(full);
+      } else if (isTestFile(entry.name)) {
+        found.push(full);
+      }
+    }
+  };
+  for (const p of paths) {
+    if (fs.statSync(p, { throwIfNoEntry: false })?.isDirectory()) walk(p);
+    else found.push(p);
+  }
+  return found;
+}
+
+// Whether any test in the results failed, or any file couldn't run
+export function testsFailed(results: TestFileResult[]): boolean {
+  return results.some((r) => r.error !== undefined || r.tests.some((t) => t.failure));
+}
+
+// The results for a terminal: each test under its file, failures explained
+// with the values they compared, and a count at the end
+export function testReport(results: TestFileResult[]): string {
+  const out: string[] = [];
+  let passed = 0;
+  let failed = 0;
+  for (const result of results) {
+    out.push(result.file);
+    if (result.error !== undefined) {
+      out.push(indent(result.error, 4));
+      failed++;
+    }
+    const source = result.error === undefined ? readSource(result.file) : undefined;
+    for (const test of result.tests) {
+      if (!test.failure) {
+        out.push(`  ok   ${test.name}`);
+        passed++;
+        continue;
+      }
+      failed++;
+      out.push(`  FAIL ${test.name}`);
+      out.push(indent(renderDiagnostic(test.failure, source), 4));
+      if (test.comparison) out.push(indent(showComparison(test.comparison), 4));
+    }
+  }
+  const total = results.reduce((n, r) => n + r.tests.length, 0);
+  out.push("", `${total} ${total === 1 ? "test" : "tests"}: ${passed} passed, ${failed} failed`);
+  return out.join("\n");
+}
+
+// The compared values, one above the other, with a caret under the first
+// character that differs
+export function showComparison({ expected, actual }: Comparison): string {
+  if (expected === null) return `value:    ${actual}`;
+  let at = 0;
+  while (at < expected.length && at < actual.length && expected[at] === actual[at]) at++;
+  return [`expected: ${expected}`, `actual:   ${actual}`, `${" ".repeat(10 + at)}^`].join("\n");
+}
+
+function readSource(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+function indent(text: string, width: number): string {
+  return text.split("\n").map((line) => (line === "" ? line : " ".repeat(width) + line)).join("\n");
+}
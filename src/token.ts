@@ -5,17 +5,25 @@ export enum TokenKind {
   Int = "Int",
   Float = "Float",
   String = "String",
+  InterpStart = "InterpStart",
+  InterpMiddle = "InterpMiddle",
+  InterpEnd = "InterpEnd",
   True = "True",
   False = "False",
 
   // Keywords
   Let = "Let",
   Rec = "Rec",
+  And = "And",
   Fn = "Fn",
   Match = "Match",
   Catch = "Catch",
   In = "In",
   If = "If",
+  Type = "Type",
+  Import = "Import",
+  As = "As",
+  Test = "Test",
 
   // Identifiers
   Ident = "Ident",
@@ -40,6 +48,7 @@ export enum TokenKind {
   Bang = "Bang",
   Arrow = "Arrow",
   Pipe = "Pipe",
+  Bar = "Bar",
   Question = "Question",
 
   // Delimiters
@@ -62,4 +71,13 @@ export interface Token {
   kind: TokenKind;
   lexeme: string;
   span: Span;
+  // The `--` comments between the previous token and this one, when lexed
+  // with `comments: true`. The EOF token holds those at the end of the file.
+  comments?: Comment[];
+}
+
+export interface Comment {
+  // The comment's text, `--` included
+  text: string;
+  span: Span;
 }
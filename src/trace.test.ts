@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { formatPipeEvent, preview } from "./trace";
+import { evaluate, PipeEvent } from "./evaluator";
+import { parse } from "./parser";
+import { lex } from "./lexer";
+import { createPrelude } from "./prelude";
+import { toRill } from "./values";
+
+function events(source: string): PipeEvent[] {
+  const seen: PipeEvent[] = [];
+  evaluate(parse(lex(source)), createPrelude(), { onPipe: (e) => seen.push(e) });
+  return seen;
+}
+
+describe("preview", () => {
+  it("shows small values as prettyPrint does", () => {
+    expect(preview(toRill({ name: "a", tags: [1, 2] }))).toBe('{ name: "a", tags: [1, 2] }');
+  });
+
+  it("cuts long lists and strings, at any depth", () => {
+    expect(preview(toRill([1, 2, 3, 4, 5, 6, 7]))).toBe("[1, 2, 3, 4, 5, ... 2 more]");
+    expect(preview(toRill({ xs: [[1, 2, 3]] }), { items: 2, chars: 40 })).toBe("{ xs: [[1, 2, ... 1 more]] }");
+    expect(preview(toRill("abcdef"), { items: 5, chars: 3 })).toBe('"abc..."');
+  });
+});
+
+describe("formatPipeEvent", () => {
+  it("shows where the stage is, its text and its input and output", () => {
+    const source = "[1, 2, 3] |> map(fn(x) -> x * 2)";
+    expect(formatPipeEvent(events(source)[0], source)).toBe("line 1, col 14 |> map(fn(x) -> x * 2): [1, 2, 3] -> [2, 4, 6]");
+  });
+
+  it("cuts stages that span lines", () => {
+    const source = "[1] |> map(fn(x) ->\n  x * 2)";
+    expect(formatPipeEvent(events(source)[0], source)).toBe("line 1, col 8 |> map(fn(x) -> ...: [1] -> [2]");
+  });
+
+  it("leaves out the stage's text without the source", () => {
+    expect(formatPipeEvent(events("1 |> to_string")[0])).toBe('line 1, col 6: 1 -> "1"');
+  });
+});
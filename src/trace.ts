@@ -0,0 +1,54 @@
+import { PipeEvent } from "./evaluator";
+import { Value } from "./values";
+import { excerpt, formatSpan } from "./span";
+
+// How much of a value a trace line shows
+interface PreviewLimits {
+  // Elements of each list
+  items: number;
+  // Characters of each string
+  chars: number;
+}
+
+const LIMITS: PreviewLimits = { items: 5, chars: 40 };
+
+// The longest stage text shown before it is cut
+const STAGE_WIDTH = 40;
+
+// A trace line for a pipe stage, at the stage's position and with its text
+// when the source is given:
+//   line 3, col 17 |> filter(is_even): [1, 2, 3, 4, 5, ... 5 more] -> [2, 4, 6, 8, 10]
+export function formatPipeEvent(event: PipeEvent, source?: string, limits: PreviewLimits = LIMITS): string {
+  const stage = source === undefined ? "" : ` |> ${excerpt(source, event.stage, STAGE_WIDTH)}`;
+  return `${formatSpan(event.stage)}${stage}: ${preview(event.input, limits)} -> ${preview(event.output, limits)}`;
+}
+
+// A value as prettyPrint shows it, with long lists and strings cut short
+export function preview(v: Value, limits: PreviewLimits = LIMITS): string {
+  const show = (value: Value) => preview(value, limits);
+  switch (v.kind) {
+    case "String":
+      return v.value.length > limits.chars ? `"${v.value.slice(0, limits.chars)}..."` : `"${v.value}"`;
+    case "List": {
+      const shown = v.elements.slice(0, limits.items).map(show);
+      const rest = v.elements.length - shown.length;
+      return `[${[...shown, ...(rest > 0 ? [`... ${rest} more`] : [])].join(", ")}]`;
+    }
+    case "Tuple":
+      return `(${v.elements.map(show).join(", ")})`;
+    case "Record":
+      return `{ ${[...v.fields.entries()].map(([k, val]) => `${k}: ${show(val)}`).join(", ")} }`;
+    case "Tag":
+      return v.args.length === 0 ? v.tag : `${v.tag}(${v.args.map(show).join(", ")})`;
+    case "Int":
+    case "Float":
+    case "Bool":
+      return String(v.value);
+    case "Unit":
+      return "()";
+    case "Closure":
+      return "<fn>";
+    case "BuiltinFn":
+      return `<builtin:${v.name}>`;
+  }
+}
@@ -1,11 +1,10 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { infer } from "./typechecker";
-import { parse } from "./parser";
+import { InferContext, TypeEnv, infer, inferProgram } from "./typechecker";
+import { parse, parseProgram, parseProgramWithErrors } from "./parser";
 import { lex } from "./lexer";
-import { prettyType, resetTypeVarCounter } from "./types";
+import { prettyType } from "./types";
 
 function typeOf(source: string): string {
-  resetTypeVarCounter();
   const type = infer(parse(lex(source)));
   return prettyType(type);
 }
@@ -24,6 +23,32 @@ describe("Type Inference", () => {
     it("infers String for concatenation", () => expect(typeOf('"a" ++ "b"')).toBe("String"));
   });
 
+  describe("string interpolation", () => {
+    it("infers String", () => {
+      expect(typeOf('let n = 3 in "${n} items, ${[true]} and ${"s"}"')).toBe("String");
+    });
+
+    it("type checks the holes", () => {
+      expect(() => typeOf('"${1 + "a"}"')).toThrow();
+    });
+
+    it("rejects functions in holes", () => {
+      expect(() => typeOf('"${fn(x) -> x}"')).toThrow("Cannot interpolate a function");
+    });
+
+    it("rejects holes only found to be functions after they are checked", () => {
+      expect(() => typeOf('fn(f) -> (let s = "${f}" in f(1))')).toThrow("Cannot interpolate a function (Int -> ");
+      const show = 'let show = fn(x) -> "${x}" in ';
+      expect(() => typeOf(show + "show(fn(y) -> y)")).toThrow("Cannot interpolate a function");
+      expect(typeOf(show + 'show(1) ++ show("a")')).toBe("String");
+    });
+
+    it("rejects such holes in programs", () => {
+      const program = parseProgram(lex('let show = fn(x) -> "${x}"\nlet id = fn(y) -> y\nlet s = show(id)'));
+      expect(() => inferProgram(program, new Map())).toThrow("Cannot interpolate a function");
+    });
+  });
+
   describe("let bindings", () => {
     it("infers let binding type", () => {
       expect(typeOf("let x = 5 in x")).toBe("Int");
@@ -53,6 +78,36 @@ describe("Type Inference", () => {
     });
   });
 
+  describe("recursive bindings", () => {
+    it("makes a let rec binding visible in its own definition", () => {
+      expect(typeOf("let rec f = fn(n) -> match n { 0 -> 1, _ -> n * f(n - 1) } in f")).toBe("Int -> Int");
+    });
+
+    it("generalizes a let rec binding for its body", () => {
+      expect(typeOf('let rec id = fn(x) -> x in let a = id(1) in id("s")')).toBe("String");
+    });
+
+    it("infers a mutually recursive group together", () => {
+      const source = `
+        let rec is_even = fn(n) -> match n { 0 -> true, _ -> is_odd(n - 1) }
+        and is_odd = fn(n) -> match n { 0 -> false, _ -> is_even(n - 1) }
+        in is_odd`;
+      expect(typeOf(source)).toBe("Int -> Bool");
+    });
+
+    it("generalizes group members after inferring the group", () => {
+      const source = `
+        let rec first = fn(x, n) -> match n { 0 -> x, _ -> second(x, n - 1) }
+        and second = fn(x, n) -> first(x, n)
+        in let a = first(1, 2) in second("s", 2)`;
+      expect(typeOf(source)).toBe("String");
+    });
+
+    it("rejects inconsistent uses within a group", () => {
+      expect(() => typeOf('let rec f = fn(n) -> g(n) + 1 and g = fn(n) -> "s" in f')).toThrow();
+    });
+  });
+
   describe("let-polymorphism", () => {
     it("allows polymorphic use of identity", () => {
       expect(typeOf('let id = fn(x) -> x in let a = id(5) in id("hi")')).toBe("String");
@@ -78,6 +133,10 @@ describe("Type Inference", () => {
       expect(t).toContain("age: Int");
     });
 
+    it("accumulates accessed fields on an unknown record", () => {
+      expect(typeOf("fn(r) -> (r.a + 1, r.b ++ \"\")")).toMatch(/^\{ a: Int, b: String \| \w+ \} -> \(Int, String\)$/);
+    });
+
     it("infers field access type", () => {
       expect(typeOf('let r = { name: "Alice" } in r.name')).toBe("String");
     });
@@ -106,6 +165,14 @@ describe("Type Inference", () => {
       expect(() => typeOf("let x = 42 in x?")).toThrow();
     });
 
+    it("infers catch on a value that may short-circuit with ?", () => {
+      expect(typeOf("let x = Ok(42) in x? + 1 |> catch e -> 0")).toBe("Int");
+    });
+
+    it("rejects a catch fallback of a different type", () => {
+      expect(() => typeOf('let x = Ok(42) in x? + 1 |> catch e -> "none"')).toThrow();
+    });
+
     it("infers catch collapses Result", () => {
       expect(typeOf("let x = Ok(42) in x |> catch e -> 0")).toBe("Int");
     });
@@ -125,11 +192,164 @@ describe("Type Inference", () => {
     });
   });
 
+  describe("data type declarations", () => {
+    const shape = "type Shape = Circle(Float) | Rect(Float, Float) in ";
+
+    it("infers the declared type for constructors", () => {
+      expect(typeOf(shape + "Rect(3.0, 4.0)")).toBe("Shape");
+    });
+
+    it("instantiates type parameters", () => {
+      expect(typeOf("type Option(a) = Some(a) | None in Some(5)")).toBe("Option(Int)");
+    });
+
+    it("rejects constructor arguments of the wrong type", () => {
+      expect(() => typeOf(shape + "Circle(1)")).toThrow();
+    });
+
+    it("rejects constructors with the wrong number of arguments", () => {
+      expect(() => typeOf(shape + "Rect(1.0)")).toThrow("expects 2 argument(s)");
+    });
+
+    it("checks the match subject against constructor patterns", () => {
+      expect(typeOf(shape + "fn(s) -> match s { Circle(r) -> r, Rect(w, h) -> w * h }")).toBe("Shape -> Float");
+    });
+
+    it("rejects matching a declared type against the wrong subject", () => {
+      expect(() => typeOf(shape + "match 5 { Circle(r) -> r, Rect(w, h) -> w }")).toThrow();
+    });
+
+    it("binds pattern variables to constructor argument types", () => {
+      expect(() => typeOf(shape + 'fn(s) -> match s { Circle(r) -> r ++ "", Rect(w, h) -> "" }')).toThrow();
+    });
+
+    it("rejects a non-exhaustive match, listing the missing constructors", () => {
+      const source = "type Dir = N | E | S | W in fn(d) -> match d { N -> 1, S -> 2 }";
+      expect(() => typeOf(source)).toThrow("Non-exhaustive match: missing E, W");
+    });
+
+    it("accepts a catch-all arm as exhaustive", () => {
+      expect(typeOf(shape + "fn(s) -> match s { Circle(r) -> r, _ -> 0.0 }")).toBe("Shape -> Float");
+    });
+
+    it("checks nested constructor patterns for exhaustiveness", () => {
+      const decl = "type Option(a) = Some(a) | None in ";
+      expect(typeOf(decl + "match Some(None) { Some(Some(x)) -> x, Some(None) -> 0, None -> 1 }")).toBe("Int");
+      expect(() => typeOf(decl + "match Some(None) { Some(Some(x)) -> x, None -> 1 }")).toThrow("missing Some");
+    });
+
+    it("supports recursive data types", () => {
+      const decl = "type IntList = Nil | Cons(Int, IntList) in ";
+      expect(typeOf(decl + "Cons(1, Cons(2, Nil))")).toBe("IntList");
+      expect(() => typeOf(decl + "Cons(1, Cons(2, 3))")).toThrow();
+    });
+
+    it("rejects unknown type names", () => {
+      expect(() => typeOf("type T = A(Flaot) in 1")).toThrow("Unknown type Flaot");
+    });
+
+    it("rejects unbound type variables", () => {
+      expect(() => typeOf("type T = A(a) in 1")).toThrow("Unknown type variable a");
+    });
+  });
+
+  describe("programs", () => {
+    function programTypes(source: string) {
+      return inferProgram(parseProgram(lex(source)));
+    }
+
+    it("skips source that failed to parse instead of reporting errors about it", () => {
+      const { program, errors } = parseProgramWithErrors(lex('let x = (1 +)\nlet n = x * 2\nlet s = x ++ "!"\nn'));
+      expect(errors).toHaveLength(1);
+      expect(prettyType(inferProgram(program).type)).toBe("Int");
+    });
+
+    it("still reports real type errors next to source that failed to parse", () => {
+      const { program } = parseProgramWithErrors(lex('let x = [1, , 3]\nlet y = 1 ++ "!"'));
+      expect(() => inferProgram(program)).toThrow("Cannot unify");
+    });
+
+    it("checks tests against the declarations before them, binding nothing", () => {
+      const { type, env } = programTypes('let id = fn(x) -> x\ntest "id" = id(1) == 1\nid("a")');
+      expect(prettyType(type)).toBe("String");
+      expect([...env.keys()]).toEqual(["id"]);
+      expect(() => programTypes('let n = 1\ntest "bad" = n ++ "!"')).toThrow("Cannot unify");
+    });
+
+    it("generalizes each top-level declaration", () => {
+      const { type } = programTypes("let id = fn(x) -> x\nlet n = id(1)\nid(true)");
+      expect(prettyType(type)).toBe("Bool");
+    });
+
+    it("returns the declared bindings", () => {
+      const { env, type } = programTypes("type Color = Red | Green\nlet c = Red");
+      expect(prettyType(env.get("c")!.type)).toBe("Color");
+      expect(prettyType(type)).toBe("Unit");
+    });
+
+    it("checks declarations against each other", () => {
+      expect(() => programTypes('let x = 1\nlet y = x ++ "a"')).toThrow();
+    });
+  });
+
+  describe("inference contexts", () => {
+    // Checks a program one declaration at a time, yielding between declarations
+    async function checkStepwise(decls: string[], ctx: InferContext): Promise<string> {
+      let env: TypeEnv = new Map();
+      let type = "";
+      for (const decl of decls) {
+        const result = inferProgram(parseProgram(lex(decl)), env, ctx);
+        env = result.env;
+        type = prettyType(result.type);
+        await Promise.resolve();
+      }
+      return type;
+    }
+
+    it("checks two programs interleaved without interference", async () => {
+      const a = ["let id = fn(x) -> x", "let pair = fn(x, y) -> (x, y)", 'pair(id(1), id("s"))'];
+      const b = ["let k = fn(x, y) -> x", "let n = k(1, true)", 'k("a", n)'];
+      const [typeA, typeB] = await Promise.all([
+        checkStepwise(a, new InferContext()),
+        checkStepwise(b, new InferContext()),
+      ]);
+      expect(typeA).toBe("(Int, String)");
+      expect(typeB).toBe("String");
+    });
+
+    it("gives each context its own type variable supply", () => {
+      const a = new InferContext();
+      const b = new InferContext();
+      a.fresh();
+      a.fresh();
+      expect(b.fresh()).toEqual({ kind: "TVar", id: 0 });
+      expect(a.fresh()).toEqual({ kind: "TVar", id: 2 });
+    });
+
+    it("reports errors against its own source and records them", () => {
+      const ok = new InferContext("1 + 2");
+      const bad = new InferContext('1 + "b"');
+      infer(parse(lex("1 + 2")), undefined, ok);
+      expect(() => infer(parse(lex('1 + "b"')), undefined, bad)).toThrow('1 + "b"');
+      expect(ok.diagnostics).toEqual([]);
+      expect(bad.diagnostics).toHaveLength(1);
+      expect(bad.diagnostics[0].code).toBe("E0201");
+    });
+  });
+
   describe("type errors", () => {
     it("rejects Int + String", () => {
       expect(() => typeOf('5 + "hello"')).toThrow();
     });
 
+    it("treats distinct structural tags as compatible", () => {
+      expect(typeOf("[Locked, Unlocked]")).toBe("List(Locked)");
+    });
+
+    it("unifies arguments of the same structural tag", () => {
+      expect(() => typeOf('[Next(1), Next("a")]')).toThrow();
+    });
+
     it("rejects applying non-function", () => {
       expect(() => typeOf("let x = 5 in x(3)")).toThrow();
     });
@@ -138,7 +358,7 @@ describe("Type Inference", () => {
   describe("error messages", () => {
     it("includes source location in type error", () => {
       try {
-        infer(parse(lex('5 + "hello"')), undefined, '5 + "hello"');
+        infer(parse(lex('5 + "hello"')), undefined, new InferContext('5 + "hello"'));
         expect.unreachable();
       } catch (e: any) {
         expect(e.message).toContain("line 1");
@@ -149,7 +369,7 @@ describe("Type Inference", () => {
 
     it("includes helpful message for ? on non-Result", () => {
       try {
-        infer(parse(lex("5?")), undefined, "5?");
+        infer(parse(lex("5?")), undefined, new InferContext("5?"));
         expect.unreachable();
       } catch (e: any) {
         expect(e.message).toContain("Result");
@@ -1,16 +1,20 @@
-import { Expr } from "./ast";
-import { Type, freshTypeVar, prettyType } from "./types";
+import { Binding, Expr, IdentPat, Program, TypeExpr, Variant } from "./ast";
+import { Type, prettyType } from "./types";
 import { Substitution, unify, applySubst } from "./unify";
-import { RillError } from "./errors";
+import { ErrorDetails, RillError, toDiagnostic } from "./errors";
+import { Codes, Diagnostic, Label } from "./diagnostics";
 import { Span } from "./span";
+import { CtorInfo, missingConstructors } from "./exhaustive";
 
 // A type scheme: forall quantifiedVars . type
-interface Scheme {
+// Constructors of declared data types also carry their CtorInfo
+export interface Scheme {
   vars: number[];
   type: Type;
+  ctor?: CtorInfo;
 }
 
-type TypeEnv = Map<string, Scheme>;
+export type TypeEnv = Map<string, Scheme>;
 
 function mono(t: Type): Scheme {
   return { vars: [], type: t };
@@ -31,6 +35,7 @@ function freeVars(t: Type): Set<number> {
     }
     case "TResult": return freeVars(t.ok);
     case "TTag": return t.args.reduce((s, a) => union(s, freeVars(a)), new Set<number>());
+    case "TData": return t.args.reduce((s, a) => union(s, freeVars(a)), new Set<number>());
   }
 }
 
@@ -63,11 +68,14 @@ function generalize(env: TypeEnv, t: Type, subst: Substitution): Scheme {
   return { vars, type: resolved };
 }
 
-function instantiate(scheme: Scheme): Type {
+// `subst` is needed to carry interpolation hole constraints over to the
+// fresh variables, when instantiating a binding's scheme
+function instantiate(ctx: InferContext, scheme: Scheme, subst?: Substitution): Type {
   const mapping = new Map<number, Type>();
   for (const v of scheme.vars) {
-    mapping.set(v, freshTypeVar());
+    mapping.set(v, ctx.fresh());
   }
+  if (subst && mapping.size > 0) instantiateHoles(ctx, mapping, subst);
   return substituteVars(mapping, scheme.type);
 }
 
@@ -85,64 +93,153 @@ function substituteVars(mapping: Map<number, Type>, t: Type): Type {
     };
     case "TResult": return { kind: "TResult", ok: substituteVars(mapping, t.ok) };
     case "TTag": return { kind: "TTag", tag: t.tag, args: t.args.map(a => substituteVars(mapping, a)) };
+    case "TData": return { kind: "TData", name: t.name, args: t.args.map(a => substituteVars(mapping, a)) };
   }
 }
 
 function applySubstEnv(subst: Substitution, env: TypeEnv): TypeEnv {
   const result = new Map<string, Scheme>();
   for (const [k, s] of env) {
-    result.set(k, { vars: s.vars, type: applySubst(subst, s.type) });
+    // Quantified variables are local to the scheme
+    let local = subst;
+    if (s.vars.some((v) => subst.has(v))) {
+      local = new Map(subst);
+      for (const v of s.vars) local.delete(v);
+    }
+    result.set(k, { ...s, type: applySubst(local, s.type) });
   }
   return result;
 }
 
-let _source: string | undefined;
+// The state of one type check: its fresh type variable supply, the source text
+// errors point into, and the errors it reported. Every check gets its own
+// context, so independent programs can be checked side by side.
+export class InferContext {
+  private nextId = 0;
+  readonly diagnostics: Diagnostic[] = [];
+  // When recording, the type inferred for each expression and pattern-bound
+  // name, for editor tooling. They are as inferred at that point in the check:
+  // apply `subst`, the latest substitution, to resolve them.
+  readonly types: Map<Expr | IdentPat, Type> | null;
+  subst: Substitution = new Map();
+  // Types of interpolation holes, which must not turn out to be functions.
+  // They are checked again once the whole check has resolved them.
+  readonly holes: { type: Type; span: Span }[] = [];
+
+  constructor(readonly source?: string, recordTypes = false) {
+    this.types = recordTypes ? new Map() : null;
+  }
+
+  fresh(): Type {
+    return { kind: "TVar", id: this.nextId++ };
+  }
+
+  error(msg: string, span: Span, code: string = Codes.TypeError, details: ErrorDetails = {}): Error {
+    if (this.source !== undefined) return new RillError(msg, span, this.source, code, details);
+    return new TypeError(msg);
+  }
+
+  // Attaches `span` to a TypeError thrown by `fn`, along with the details
+  // computed once it has failed
+  withSpan<T>(fn: () => T, span: Span, code: string = Codes.TypeMismatch, details: () => ErrorDetails = () => ({})): T {
+    try {
+      return fn();
+    } catch (e) {
+      if (e instanceof TypeError && this.source !== undefined) {
+        throw new RillError(e.message, span, this.source, code, details());
+      }
+      throw e;
+    }
+  }
+
+  // Runs a whole check, recording the error that ends it
+  run<T>(fn: () => T): T {
+    try {
+      return fn();
+    } catch (e) {
+      this.diagnostics.push(toDiagnostic(e));
+      throw e;
+    }
+  }
+}
+
+export function infer(expr: Expr, env: TypeEnv = new Map(), ctx: InferContext = new InferContext()): Type {
+  return ctx.run(() => {
+    const [type, subst] = inferExpr(ctx, expr, env, new Map());
+    checkHoles(ctx, subst);
+    return applySubst(subst, type);
+  });
+}
 
-function typeError(msg: string, span: Span): Error {
-  if (_source) return new RillError(msg, span, _source);
-  return new TypeError(msg);
+function checkHole(ctx: InferContext, type: Type, span: Span, subst: Substitution): void {
+  const resolved = applySubst(subst, type);
+  if (resolved.kind === "TFn") {
+    throw ctx.error(`Cannot interpolate a function (${prettyType(resolved)}) into a string`, span);
+  }
 }
 
-export function infer(expr: Expr, env?: TypeEnv, source?: string): Type {
-  _source = source;
-  const defaultEnv: TypeEnv = env ?? new Map();
-  const [type, subst] = inferExpr(expr, defaultEnv, new Map());
-  return applySubst(subst, type);
+// Rejects holes whose types were only found to be functions after they were checked
+function checkHoles(ctx: InferContext, subst: Substitution): void {
+  for (const { type, span } of ctx.holes) checkHole(ctx, type, span, subst);
 }
 
-function withSpan<T>(fn: () => T, span: Span): T {
-  try {
-    return fn();
-  } catch (e) {
-    if (e instanceof TypeError && _source) {
-      throw new RillError(e.message, span, _source);
-    }
-    throw e;
+// Each use of a polymorphic binding gets fresh type variables; a hole typed by
+// one of the binding's variables constrains the fresh one in its place
+function instantiateHoles(ctx: InferContext, mapping: Map<number, Type>, subst: Substitution): void {
+  for (const hole of [...ctx.holes]) {
+    const resolved = applySubst(subst, hole.type);
+    const use = resolved.kind === "TVar" ? mapping.get(resolved.id) : undefined;
+    if (use) ctx.holes.push({ type: use, span: hole.span });
   }
 }
 
-function inferExpr(expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substitution] {
+function inferExpr(ctx: InferContext, expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substitution] {
+  const result = inferNode(ctx, expr, env, subst);
+  if (ctx.types) {
+    ctx.types.set(expr, result[0]);
+    ctx.subst = result[1];
+  }
+  return result;
+}
+
+function inferNode(ctx: InferContext, expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substitution] {
   switch (expr.kind) {
     case "IntLit": return [{ kind: "TCon", name: "Int" }, subst];
     case "FloatLit": return [{ kind: "TCon", name: "Float" }, subst];
     case "StringLit": return [{ kind: "TCon", name: "String" }, subst];
     case "BoolLit": return [{ kind: "TCon", name: "Bool" }, subst];
+
+    case "StringInterp": {
+      // Holes render with to_string, which accepts anything but functions
+      let s = subst;
+      for (const e of expr.exprs) {
+        const [t, si] = inferExpr(ctx, e, env, s);
+        s = si;
+        checkHole(ctx, t, e.span, s);
+        ctx.holes.push({ type: t, span: e.span });
+      }
+      return [{ kind: "TCon", name: "String" }, s];
+    }
     case "UnitLit": return [{ kind: "TCon", name: "Unit" }, subst];
+    // Source that failed to parse could have any type, so it causes no type errors of its own
+    case "Error": return [ctx.fresh(), subst];
 
     case "Ident": {
       const scheme = env.get(expr.name);
-      if (!scheme) throw new TypeError(`Undefined variable: ${expr.name}`);
-      return [instantiate(scheme), subst];
+      if (!scheme) throw ctx.error(`Undefined variable: ${expr.name}`, expr.span, Codes.UndefinedVariable);
+      return [instantiate(ctx, scheme, subst), subst];
     }
 
     case "BinOp": {
-      const [leftT, s1] = inferExpr(expr.left, env, subst);
-      const [rightT, s2] = inferExpr(expr.right, env, s1);
-      return withSpan(() => inferBinOp(expr.op, leftT, rightT, s2), expr.span);
+      const [leftT, s1] = inferExpr(ctx, expr.left, env, subst);
+      const [rightT, s2] = inferExpr(ctx, expr.right, env, s1);
+      return ctx.withSpan(() => inferBinOp(expr.op, leftT, rightT, s2), expr.span, Codes.TypeMismatch, () => ({
+        labels: [typeLabel(expr.left, leftT, s2), typeLabel(expr.right, rightT, s2)],
+      }));
     }
 
     case "UnaryOp": {
-      const [operandT, s1] = inferExpr(expr.expr, env, subst);
+      const [operandT, s1] = inferExpr(ctx, expr.expr, env, subst);
       if (expr.op === "!") {
         const s2 = unify(operandT, { kind: "TCon", name: "Bool" }, s1);
         return [{ kind: "TCon", name: "Bool" }, s2];
@@ -162,48 +259,60 @@ function inferExpr(expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substi
     }
 
     case "Let": {
-      const [valT, s1] = inferExpr(expr.value, env, subst);
-      const scheme = expr.rec ? mono(valT) : generalize(env, valT, s1);
+      const [valT, s1] = inferExpr(ctx, expr.value, env, subst);
       const newEnv = new Map(env);
-      newEnv.set(expr.name, scheme);
-      return inferExpr(expr.body, newEnv, s1);
+      newEnv.set(expr.name, generalize(env, valT, s1));
+      return inferExpr(ctx, expr.body, newEnv, s1);
+    }
+
+    case "LetRec": {
+      const [schemes, s1] = inferGroup(ctx, expr.bindings, env, subst);
+      const newEnv = new Map(env);
+      for (const [name, scheme] of schemes) newEnv.set(name, scheme);
+      return inferExpr(ctx, expr.body, newEnv, s1);
     }
 
     case "Fn": {
-      const paramT = freshTypeVar();
+      const paramT = ctx.fresh();
       const newEnv = new Map(env);
       newEnv.set(expr.param, mono(paramT));
-      const [bodyT, s1] = inferExpr(expr.body, newEnv, subst);
+      const [bodyT, s1] = inferExpr(ctx, expr.body, newEnv, subst);
       return [{ kind: "TFn", param: applySubst(s1, paramT), ret: bodyT }, s1];
     }
 
     case "Call": {
-      const [fnT, s1] = inferExpr(expr.fn, env, subst);
-      const [argT, s2] = inferExpr(expr.arg, env, s1);
-      const retT = freshTypeVar();
-      const s3 = withSpan(() => unify(applySubst(s2, fnT), { kind: "TFn", param: argT, ret: retT }, s2), expr.span);
+      const [fnT, s1] = inferExpr(ctx, expr.fn, env, subst);
+      const [argT, s2] = inferExpr(ctx, expr.arg, env, s1);
+      const retT = ctx.fresh();
+      const s3 = ctx.withSpan(() => unify(applySubst(s2, fnT), { kind: "TFn", param: argT, ret: retT }, s2), expr.span, Codes.TypeMismatch, () => ({
+        labels: [typeLabel(expr.fn, fnT, s2), typeLabel(expr.arg, argT, s2)],
+      }));
       return [applySubst(s3, retT), s3];
     }
 
     case "If": {
-      const [condT, s1] = inferExpr(expr.cond, env, subst);
-      const s2 = unify(condT, { kind: "TCon", name: "Bool" }, s1);
-      const [thenT, s3] = inferExpr(expr.then, env, s2);
-      const [elseT, s4] = inferExpr(expr.else_, env, s3);
-      const s5 = unify(thenT, elseT, s4);
+      const [condT, s1] = inferExpr(ctx, expr.cond, env, subst);
+      const s2 = ctx.withSpan(() => unify(condT, { kind: "TCon", name: "Bool" }, s1), expr.cond.span);
+      const [thenT, s3] = inferExpr(ctx, expr.then, env, s2);
+      const [elseT, s4] = inferExpr(ctx, expr.else_, env, s3);
+      const s5 = ctx.withSpan(() => unify(thenT, elseT, s4), expr.else_.span, Codes.TypeMismatch, () => ({
+        labels: [typeLabel(expr.then, thenT, s4)],
+      }));
       return [applySubst(s5, thenT), s5];
     }
 
     case "List": {
       if (expr.elements.length === 0) {
-        return [{ kind: "TList", element: freshTypeVar() }, subst];
+        return [{ kind: "TList", element: ctx.fresh() }, subst];
       }
       let s = subst;
-      const [firstT, s1] = inferExpr(expr.elements[0], env, s);
+      const [firstT, s1] = inferExpr(ctx, expr.elements[0], env, s);
       s = s1;
       for (let i = 1; i < expr.elements.length; i++) {
-        const [elT, si] = inferExpr(expr.elements[i], env, s);
-        s = unify(firstT, elT, si);
+        const [elT, si] = inferExpr(ctx, expr.elements[i], env, s);
+        s = ctx.withSpan(() => unify(firstT, elT, si), expr.elements[i].span, Codes.TypeMismatch, () => ({
+          labels: [typeLabel(expr.elements[0], firstT, si)],
+        }));
       }
       return [{ kind: "TList", element: applySubst(s, firstT) }, s];
     }
@@ -212,7 +321,7 @@ function inferExpr(expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substi
       let s = subst;
       const types: Type[] = [];
       for (const el of expr.elements) {
-        const [t, si] = inferExpr(el, env, s);
+        const [t, si] = inferExpr(ctx, el, env, s);
         types.push(t);
         s = si;
       }
@@ -223,7 +332,7 @@ function inferExpr(expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substi
       let s = subst;
       const fields = new Map<string, Type>();
       for (const f of expr.fields) {
-        const [t, si] = inferExpr(f.value, env, s);
+        const [t, si] = inferExpr(ctx, f.value, env, s);
         fields.set(f.name, t);
         s = si;
       }
@@ -231,32 +340,46 @@ function inferExpr(expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substi
     }
 
     case "FieldAccess": {
-      const [recT, s1] = inferExpr(expr.expr, env, subst);
+      const [recT, s1] = inferExpr(ctx, expr.expr, env, subst);
       const resolved = applySubst(s1, recT);
       if (resolved.kind === "TRecord") {
         const fieldT = resolved.fields.get(expr.field);
-        if (!fieldT) throw new TypeError(`No field ${expr.field} in record`);
-        return [fieldT, s1];
+        if (fieldT) return [fieldT, s1];
+        if (resolved.rest?.kind !== "TVar") throw ctx.error(`No field ${expr.field} in record`, expr.span);
       }
-      if (resolved.kind === "TVar") {
-        // Create a record type constraint with the accessed field
-        const fieldT = freshTypeVar();
+      if (resolved.kind === "TVar" || resolved.kind === "TRecord") {
+        // An open record (or unknown type) gains a constraint for the accessed field
+        const fieldT = ctx.fresh();
         const recType: Type = {
           kind: "TRecord",
           fields: new Map([[expr.field, fieldT]]),
-          rest: freshTypeVar(),
+          rest: ctx.fresh(),
         };
-        const s2 = unify(resolved, recType, s1);
+        const target = resolved.kind === "TRecord" ? resolved.rest! : resolved;
+        const s2 = unify(target, recType, s1);
         return [applySubst(s2, fieldT), s2];
       }
-      throw new TypeError(`Field access on non-record type: ${resolved.kind}`);
+      throw ctx.error(`Field access on non-record type: ${prettyType(resolved)}`, expr.span);
     }
 
     case "Tag": {
+      const ctor = env.get(expr.tag);
+      if (ctor?.ctor) {
+        if (expr.args.length !== ctor.ctor.arity) {
+          throw ctx.error(`Constructor ${expr.tag} expects ${ctor.ctor.arity} argument(s) but got ${expr.args.length}`, expr.span);
+        }
+        const [paramTypes, resultT] = splitCtor(instantiate(ctx, ctor), ctor.ctor.arity);
+        let s = subst;
+        for (let i = 0; i < expr.args.length; i++) {
+          const [t, si] = inferExpr(ctx, expr.args[i], env, s);
+          s = ctx.withSpan(() => unify(paramTypes[i], t, si), expr.args[i].span);
+        }
+        return [applySubst(s, resultT), s];
+      }
       let s = subst;
       const argTypes: Type[] = [];
       for (const a of expr.args) {
-        const [t, si] = inferExpr(a, env, s);
+        const [t, si] = inferExpr(ctx, a, env, s);
         argTypes.push(t);
         s = si;
       }
@@ -264,48 +387,59 @@ function inferExpr(expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substi
         return [{ kind: "TResult", ok: argTypes[0] }, s];
       }
       if (expr.tag === "Err" && argTypes.length === 1) {
-        return [{ kind: "TResult", ok: freshTypeVar() }, s];
+        return [{ kind: "TResult", ok: ctx.fresh() }, s];
       }
       return [{ kind: "TTag", tag: expr.tag, args: argTypes }, s];
     }
 
     case "Pipe": {
       // a |> f desugars to f(a) for type checking
-      const [leftT, s1] = inferExpr(expr.left, env, subst);
+      const [leftT, s1] = inferExpr(ctx, expr.left, env, subst);
       if (expr.right.kind === "Catch") {
-        // catch unwraps Result: if leftT is Result(T), return T unified with fallback
-        const okT = freshTypeVar();
-        const s2 = unify(applySubst(s1, leftT), { kind: "TResult", ok: okT }, s1);
+        // catch unwraps Result: if leftT is Result(T), return T unified with fallback.
+        // Any other left side is a value whose evaluation may short-circuit with `?`,
+        // so the fallback must have the same type as the value itself.
+        const resolvedLeftT = applySubst(s1, leftT);
+        let valueT: Type = resolvedLeftT;
+        let s2 = s1;
+        if (resolvedLeftT.kind === "TResult" || resolvedLeftT.kind === "TVar") {
+          valueT = ctx.fresh();
+          s2 = unify(resolvedLeftT, { kind: "TResult", ok: valueT }, s1);
+        }
         const catchEnv = new Map(env);
         catchEnv.set(expr.right.errorName, mono({ kind: "TCon", name: "String" }));
-        const [fallbackT, s3] = inferExpr(expr.right.fallback, catchEnv, s2);
-        const s4 = unify(applySubst(s3, okT), fallbackT, s3);
-        return [applySubst(s4, okT), s4];
+        const [fallbackT, s3] = inferExpr(ctx, expr.right.fallback, catchEnv, s2);
+        const s4 = ctx.withSpan(() => unify(applySubst(s3, valueT), fallbackT, s3), expr.right.span);
+        return [applySubst(s4, valueT), s4];
       }
       // Special handling: if right side is Try, apply inner fn first then try
       if (expr.right.kind === "Try") {
-        const [fnT, s2] = inferExpr(expr.right.expr, env, s1);
-        const callRetT = freshTypeVar();
+        const [fnT, s2] = inferExpr(ctx, expr.right.expr, env, s1);
+        const callRetT = ctx.fresh();
         const s3 = unify(applySubst(s2, fnT), { kind: "TFn", param: applySubst(s2, leftT), ret: callRetT }, s2);
-        const okT = freshTypeVar();
+        const okT = ctx.fresh();
         const s4 = unify(applySubst(s3, callRetT), { kind: "TResult", ok: okT }, s3);
         return [applySubst(s4, okT), s4];
       }
-      const [rightT, s2] = inferExpr(expr.right, env, s1);
-      const retT = freshTypeVar();
-      const s3 = unify(applySubst(s2, rightT), { kind: "TFn", param: applySubst(s2, leftT), ret: retT }, s2);
+      const [rightT, s2] = inferExpr(ctx, expr.right, env, s1);
+      const retT = ctx.fresh();
+      const s3 = ctx.withSpan(() => unify(applySubst(s2, rightT), { kind: "TFn", param: applySubst(s2, leftT), ret: retT }, s2), expr.span, Codes.TypeMismatch, () => ({
+        labels: [typeLabel(expr.left, leftT, s2), typeLabel(expr.right, rightT, s2)],
+      }));
       return [applySubst(s3, retT), s3];
     }
 
     case "Match": {
-      const [subjT, s1] = inferExpr(expr.subject, env, subst);
+      const [subjT, s1] = inferExpr(ctx, expr.subject, env, subst);
       let s = s1;
-      const retT = freshTypeVar();
+      const retT = ctx.fresh();
       for (const c of expr.cases) {
-        const [patT, patBindings, s2] = inferPattern(c.pattern, s);
-        // Skip subject-pattern unification for tag patterns (no sum types in v1)
+        const [patT, patBindings, s2] = ctx.withSpan(() => inferPattern(ctx, c.pattern, env, s), expr.span);
+        // Structural tags have no declared type to check the subject against
         if (patT.kind === "TTag") {
           s = s2;
+        } else if (patT.kind === "TData") {
+          s = ctx.withSpan(() => unify(applySubst(s2, subjT), patT, s2), expr.span);
         } else {
           try {
             s = unify(applySubst(s2, subjT), patT, s2);
@@ -315,38 +449,156 @@ function inferExpr(expr: Expr, env: TypeEnv, subst: Substitution): [Type, Substi
         }
         const matchEnv = new Map(env);
         for (const [k, t] of patBindings) matchEnv.set(k, mono(t));
-        const [bodyT, s3] = inferExpr(c.body, matchEnv, s);
-        s = unify(retT, bodyT, s3);
+        const [bodyT, s3] = inferExpr(ctx, c.body, matchEnv, s);
+        s = ctx.withSpan(() => unify(retT, bodyT, s3), c.body.span, Codes.TypeMismatch, () => ({
+          labels: [typeLabel(expr.cases[0].body, retT, s3)],
+        }));
+      }
+      const missing = missingConstructors(expr.cases.map(c => c.pattern), (tag) => env.get(tag)?.ctor);
+      if (missing.length > 0) {
+        throw ctx.error(`Non-exhaustive match: missing ${missing.join(", ")}`, expr.span, Codes.NonExhaustiveMatch, {
+          notes: ["add a case for each missing constructor, or a `_` case"],
+        });
       }
       return [applySubst(s, retT), s];
     }
 
     case "Try": {
-      const [exprT, s1] = inferExpr(expr.expr, env, subst);
-      const okT = freshTypeVar();
+      const [exprT, s1] = inferExpr(ctx, expr.expr, env, subst);
+      const okT = ctx.fresh();
       const resolvedExprT = applySubst(s1, exprT);
       try {
         const s2 = unify(resolvedExprT, { kind: "TResult", ok: okT }, s1);
         return [applySubst(s2, okT), s2];
       } catch {
-        throw typeError(`The ? operator requires a Result type, but got ${prettyType(resolvedExprT)}`, expr.span);
+        throw ctx.error(`The ? operator requires a Result type, but got ${prettyType(resolvedExprT)}`, expr.span, Codes.TypeMismatch, {
+          notes: ["`?` unwraps an Ok(...) value and returns any Err(...) early"],
+        });
       }
     }
 
     case "Catch": {
-      const [exprT, s1] = inferExpr(expr.expr, env, subst);
+      const [exprT, s1] = inferExpr(ctx, expr.expr, env, subst);
       const newEnv = new Map(env);
       newEnv.set(expr.errorName, mono({ kind: "TCon", name: "String" }));
-      const [fallbackT, s2] = inferExpr(expr.fallback, newEnv, s1);
+      const [fallbackT, s2] = inferExpr(ctx, expr.fallback, newEnv, s1);
       // Result: either the ok type or the fallback type
       return [fallbackT, s2];
     }
 
+    case "TypeDecl":
+      return inferExpr(ctx, expr.body, declareType(ctx, expr, env), subst);
+
+    case "Import": {
+      // Loaded modules are bound under their import path, which no identifier can collide with
+      const scheme = env.get(expr.path);
+      if (!scheme) throw ctx.error(`Module not loaded: ${expr.path}`, expr.span);
+      const newEnv = new Map(env);
+      newEnv.set(expr.name, scheme);
+      return inferExpr(ctx, expr.body, newEnv, subst);
+    }
+
     default:
       throw new TypeError(`Cannot type-check ${(expr as any).kind} yet`);
   }
 }
 
+// Infers a recursive group together, then generalizes each binding. Members
+// are monomorphic inside the group's own definitions.
+function inferGroup(ctx: InferContext, bindings: Binding[], env: TypeEnv, subst: Substitution): [[string, Scheme][], Substitution] {
+  const selfTypes = bindings.map(() => ctx.fresh());
+  const recEnv = new Map(env);
+  bindings.forEach((b, i) => recEnv.set(b.name, mono(selfTypes[i])));
+  let s = subst;
+  for (const [i, b] of bindings.entries()) {
+    const [valT, s1] = inferExpr(ctx, b.value, recEnv, s);
+    s = ctx.withSpan(() => unify(applySubst(s1, selfTypes[i]), valT, s1), b.span);
+  }
+  const schemes = bindings.map((b, i): [string, Scheme] => [b.name, generalize(env, selfTypes[i], s)]);
+  return [schemes, s];
+}
+
+// Extends env with the constructors of a declared data type
+function declareType(ctx: InferContext, decl: { name: string; params: string[]; variants: Variant[]; span: Span }, env: TypeEnv): TypeEnv {
+  const params = new Map<string, Type>();
+  for (const p of decl.params) params.set(p, ctx.fresh());
+  const vars = [...params.values()].map(t => (t as { kind: "TVar"; id: number }).id);
+  const resultT: Type = { kind: "TData", name: decl.name, args: [...params.values()] };
+  const siblings = decl.variants.map(v => v.tag);
+  const newEnv = new Map(env);
+  for (const v of decl.variants) {
+    if (siblings.indexOf(v.tag) !== siblings.lastIndexOf(v.tag)) {
+      throw ctx.error(`Duplicate constructor ${v.tag} in type ${decl.name}`, decl.span);
+    }
+    const argTypes = v.args.map(a => ctx.withSpan(() => resolveTypeExpr(ctx, a, params, env, decl), decl.span, Codes.UnknownType));
+    const type = argTypes.reduceRight<Type>((ret, param) => ({ kind: "TFn", param, ret }), resultT);
+    newEnv.set(v.tag, { vars, type, ctor: { typeName: decl.name, arity: argTypes.length, siblings } });
+  }
+  return newEnv;
+}
+
+export interface ProgramTypes {
+  // The initial environment extended with every top-level declaration
+  env: TypeEnv;
+  // The type of the final expression, or Unit when there is none
+  type: Type;
+}
+
+// Checks a program declaration by declaration, generalizing each top-level binding
+export function inferProgram(program: Program, env: TypeEnv = new Map(), ctx: InferContext = new InferContext()): ProgramTypes {
+  return ctx.run(() => inferDecls(ctx, program, env));
+}
+
+function inferDecls(ctx: InferContext, program: Program, env: TypeEnv): ProgramTypes {
+  let subst: Substitution = new Map();
+  let scope = new Map(env);
+  for (const decl of program.decls) {
+    switch (decl.kind) {
+      case "LetDecl": {
+        const [valT, s1] = inferExpr(ctx, decl.value, scope, subst);
+        subst = s1;
+        scope.set(decl.name, generalize(scope, valT, s1));
+        break;
+      }
+      case "LetRecDecl": {
+        const [schemes, s1] = inferGroup(ctx, decl.bindings, scope, subst);
+        subst = s1;
+        for (const [name, scheme] of schemes) scope.set(name, scheme);
+        break;
+      }
+      case "TypeDef":
+        scope = declareType(ctx, decl, scope);
+        break;
+      case "ImportDecl": {
+        const scheme = scope.get(decl.path);
+        if (!scheme) throw ctx.error(`Module not loaded: ${decl.path}`, decl.span);
+        scope.set(decl.name, scheme);
+        break;
+      }
+      // A test's value can be of any type; it binds nothing
+      case "TestDecl": {
+        const [, s1] = inferExpr(ctx, decl.body, scope, subst);
+        subst = s1;
+        break;
+      }
+    }
+  }
+  ctx.subst = subst;
+  if (!program.body) {
+    checkHoles(ctx, subst);
+    return { env: applySubstEnv(subst, scope), type: { kind: "TCon", name: "Unit" } };
+  }
+  const [type, s] = inferExpr(ctx, program.body, scope, subst);
+  ctx.subst = s;
+  checkHoles(ctx, s);
+  return { env: applySubstEnv(s, scope), type: applySubst(s, type) };
+}
+
+// Points at an operand of a failed check, showing the type it was inferred to have
+function typeLabel(expr: Expr, type: Type, subst: Substitution): Label {
+  return { span: expr.span, message: `this is ${prettyType(applySubst(subst, type))}` };
+}
+
 function inferBinOp(op: string, leftT: Type, rightT: Type, subst: Substitution): [Type, Substitution] {
   // Arithmetic operators: both sides same numeric type, return same type
   if (["+", "-", "*", "/", "%"].includes(op)) {
@@ -378,23 +630,113 @@ function inferBinOp(op: string, leftT: Type, rightT: Type, subst: Substitution):
   throw new TypeError(`Unknown operator: ${op}`);
 }
 
-function inferPattern(pattern: import("./ast").Pattern, subst: Substitution): [Type, Map<string, Type>, Substitution] {
+// Splits an instantiated constructor type into its argument types and the data type it builds
+function splitCtor(t: Type, arity: number): [Type[], Type] {
+  const params: Type[] = [];
+  for (let i = 0; i < arity && t.kind === "TFn"; i++) {
+    params.push(t.param);
+    t = t.ret;
+  }
+  return [params, t];
+}
+
+// Number of type parameters of a data type in scope, or undefined if none is declared
+function dataTypeArity(env: TypeEnv, name: string): number | undefined {
+  for (const scheme of env.values()) {
+    if (scheme.ctor?.typeName !== name) continue;
+    const [, resultT] = splitCtor(scheme.type, scheme.ctor.arity);
+    return resultT.kind === "TData" ? resultT.args.length : 0;
+  }
+  return undefined;
+}
+
+// Built-in type names and how many type arguments each takes
+const BUILTIN_TYPES = new Map([["Int", 0], ["Float", 0], ["String", 0], ["Bool", 0], ["Unit", 0], ["List", 1], ["Result", 1]]);
+
+// Resolves a written type. Inside a type declaration only its parameters may
+// appear as type variables; in a signature (decl = null) they bind on first use.
+function resolveTypeExpr(ctx: InferContext, te: TypeExpr, params: Map<string, Type>, env: TypeEnv, decl: { name: string; params: string[] } | null): Type {
+  const resolve = (t: TypeExpr) => resolveTypeExpr(ctx, t, params, env, decl);
+  switch (te.kind) {
+    case "VarType": {
+      let t = params.get(te.name);
+      if (!t && decl) throw new TypeError(`Unknown type variable ${te.name} in type ${decl.name}`);
+      if (!t) {
+        t = ctx.fresh();
+        params.set(te.name, t);
+      }
+      return t;
+    }
+    case "FnType": return { kind: "TFn", param: resolve(te.param), ret: resolve(te.ret) };
+    case "TupleType": return { kind: "TTuple", elements: te.elements.map(resolve) };
+    case "RecordType": return {
+      kind: "TRecord",
+      fields: new Map(te.fields.map(f => [f.name, resolve(f.type)])),
+      rest: null,
+    };
+    case "NamedType": {
+      const isSelf = te.name === decl?.name;
+      const isBuiltin = !isSelf && BUILTIN_TYPES.has(te.name);
+      const arity = isSelf ? decl!.params.length
+        : isBuiltin ? BUILTIN_TYPES.get(te.name) : dataTypeArity(env, te.name);
+      if (arity === undefined) throw new TypeError(`Unknown type ${te.name}`);
+      if (te.args.length !== arity) {
+        throw new TypeError(`Type ${te.name} expects ${arity} argument(s) but got ${te.args.length}`);
+      }
+      const args = te.args.map(resolve);
+      if (!isBuiltin) return { kind: "TData", name: te.name, args };
+      if (te.name === "List") return { kind: "TList", element: args[0] };
+      if (te.name === "Result") return { kind: "TResult", ok: args[0] };
+      return { kind: "TCon", name: te.name };
+    }
+  }
+}
+
+// Converts a type signature into a scheme quantified over all of its type variables
+export function signatureScheme(te: TypeExpr, env: TypeEnv = new Map(), ctx: InferContext = new InferContext()): Scheme {
+  const params = new Map<string, Type>();
+  const type = resolveTypeExpr(ctx, te, params, env, null);
+  return { vars: [...params.values()].map(t => (t as { kind: "TVar"; id: number }).id), type };
+}
+
+// Generalizes the type of a top-level binding over the variables not free in env
+export function generalizeType(env: TypeEnv, t: Type): Scheme {
+  return generalize(env, t, new Map());
+}
+
+function inferPattern(ctx: InferContext, pattern: import("./ast").Pattern, env: TypeEnv, subst: Substitution): [Type, Map<string, Type>, Substitution] {
   switch (pattern.kind) {
     case "IntPat": return [{ kind: "TCon", name: "Int" }, new Map(), subst];
     case "FloatPat": return [{ kind: "TCon", name: "Float" }, new Map(), subst];
     case "StringPat": return [{ kind: "TCon", name: "String" }, new Map(), subst];
     case "BoolPat": return [{ kind: "TCon", name: "Bool" }, new Map(), subst];
-    case "WildcardPat": return [freshTypeVar(), new Map(), subst];
+    case "WildcardPat": return [ctx.fresh(), new Map(), subst];
     case "IdentPat": {
-      const t = freshTypeVar();
+      const t = ctx.fresh();
+      ctx.types?.set(pattern, t);
       return [t, new Map([[pattern.name, t]]), subst];
     }
     case "TagPat": {
+      const ctor = env.get(pattern.tag);
+      if (ctor?.ctor) {
+        if (pattern.args.length !== ctor.ctor.arity) {
+          throw new TypeError(`Constructor ${pattern.tag} expects ${ctor.ctor.arity} argument(s) but got ${pattern.args.length}`);
+        }
+        const [paramTypes, resultT] = splitCtor(instantiate(ctx, ctor), ctor.ctor.arity);
+        let s = subst;
+        const bindings = new Map<string, Type>();
+        for (let i = 0; i < pattern.args.length; i++) {
+          const [t, b, si] = inferPattern(ctx, pattern.args[i], env, s);
+          s = unify(paramTypes[i], t, si);
+          for (const [k, v] of b) bindings.set(k, v);
+        }
+        return [applySubst(s, resultT), bindings, s];
+      }
       let s = subst;
       const argTypes: Type[] = [];
       const bindings = new Map<string, Type>();
       for (const arg of pattern.args) {
-        const [t, b, si] = inferPattern(arg, s);
+        const [t, b, si] = inferPattern(ctx, arg, env, s);
         argTypes.push(t);
         for (const [k, v] of b) bindings.set(k, v);
         s = si;
@@ -403,7 +745,7 @@ function inferPattern(pattern: import("./ast").Pattern, subst: Substitution): [T
         return [{ kind: "TResult", ok: argTypes[0] }, bindings, s];
       }
       if (pattern.tag === "Err" && argTypes.length === 1) {
-        return [{ kind: "TResult", ok: freshTypeVar() }, bindings, s];
+        return [{ kind: "TResult", ok: ctx.fresh() }, bindings, s];
       }
       return [{ kind: "TTag", tag: pattern.tag, args: argTypes }, bindings, s];
     }
@@ -412,7 +754,7 @@ function inferPattern(pattern: import("./ast").Pattern, subst: Substitution): [T
       const types: Type[] = [];
       const bindings = new Map<string, Type>();
       for (const el of pattern.elements) {
-        const [t, b, si] = inferPattern(el, s);
+        const [t, b, si] = inferPattern(ctx, el, env, s);
         types.push(t);
         for (const [k, v] of b) bindings.set(k, v);
         s = si;
@@ -424,12 +766,12 @@ function inferPattern(pattern: import("./ast").Pattern, subst: Substitution): [T
       const fields = new Map<string, Type>();
       const bindings = new Map<string, Type>();
       for (const f of pattern.fields) {
-        const [t, b, si] = inferPattern(f.pattern, s);
+        const [t, b, si] = inferPattern(ctx, f.pattern, env, s);
         fields.set(f.name, t);
         for (const [k, v] of b) bindings.set(k, v);
         s = si;
       }
-      return [{ kind: "TRecord", fields, rest: freshTypeVar() }, bindings, s];
+      return [{ kind: "TRecord", fields, rest: ctx.fresh() }, bindings, s];
     }
   }
 }
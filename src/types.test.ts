@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { Type, prettyType, freshTypeVar } from "./types";
+import { Type, prettyType } from "./types";
+import { InferContext } from "./typechecker";
 
 describe("Types", () => {
   it("represents primitive types", () => {
@@ -17,14 +18,15 @@ describe("Types", () => {
   });
 
   it("represents type variables", () => {
-    const t = freshTypeVar();
+    const t = new InferContext().fresh();
     expect(t.kind).toBe("TVar");
     expect(prettyType(t)).toMatch(/^[a-z]/);
   });
 
   it("generates unique type variable names", () => {
-    const a = freshTypeVar();
-    const b = freshTypeVar();
+    const ctx = new InferContext();
+    const a = ctx.fresh();
+    const b = ctx.fresh();
     expect(a).not.toEqual(b);
   });
 
@@ -57,4 +59,9 @@ describe("Types", () => {
     };
     expect(prettyType(t)).toBe("Result(Int, String)");
   });
+
+  it("represents declared data types", () => {
+    const t: Type = { kind: "TData", name: "Option", args: [{ kind: "TCon", name: "Int" }] };
+    expect(prettyType(t)).toBe("Option(Int)");
+  });
 });
@@ -6,16 +6,8 @@ export type Type =
   | { kind: "TTuple"; elements: Type[] }
   | { kind: "TRecord"; fields: Map<string, Type>; rest: Type | null }
   | { kind: "TResult"; ok: Type }
-  | { kind: "TTag"; tag: string; args: Type[] };
-
-let _nextId = 0;
-export function freshTypeVar(): Type {
-  return { kind: "TVar", id: _nextId++ };
-}
-
-export function resetTypeVarCounter(): void {
-  _nextId = 0;
-}
+  | { kind: "TTag"; tag: string; args: Type[] }
+  | { kind: "TData"; name: string; args: Type[] };
 
 export function prettyType(t: Type): string {
   switch (t.kind) {
@@ -33,5 +25,6 @@ export function prettyType(t: Type): string {
     }
     case "TResult": return `Result(${prettyType(t.ok)}, String)`;
     case "TTag": return t.args.length === 0 ? t.tag : `${t.tag}(${t.args.map(prettyType).join(", ")})`;
+    case "TData": return t.args.length === 0 ? t.name : `${t.name}(${t.args.map(prettyType).join(", ")})`;
   }
 }
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { unify, Substitution, applySubst } from "./unify";
-import { Type, freshTypeVar, resetTypeVarCounter } from "./types";
+import { Type } from "./types";
+import { InferContext } from "./typechecker";
 
 describe("Unification", () => {
-  beforeEach(() => resetTypeVarCounter());
+  let ctx: InferContext;
+  beforeEach(() => { ctx = new InferContext(); });
 
   it("unifies identical concrete types", () => {
     const subst = unify({ kind: "TCon", name: "Int" }, { kind: "TCon", name: "Int" });
@@ -15,21 +17,29 @@ describe("Unification", () => {
       .toThrow("Int");
   });
 
+  it("names mismatched types as they are written", () => {
+    const int: Type = { kind: "TCon", name: "Int" };
+    expect(() => unify({ kind: "TList", element: int }, { kind: "TCon", name: "String" }))
+      .toThrow("Cannot unify List(Int) with String");
+    expect(() => unify({ kind: "TTuple", elements: [int, int] }, { kind: "TTuple", elements: [int, int, int] }))
+      .toThrow("Cannot unify (Int, Int) with (Int, Int, Int)");
+  });
+
   it("unifies a type variable with a concrete type", () => {
-    const a = freshTypeVar() as { kind: "TVar"; id: number };
+    const a = ctx.fresh() as { kind: "TVar"; id: number };
     const subst = unify(a, { kind: "TCon", name: "Int" });
     expect(applySubst(subst, a)).toEqual({ kind: "TCon", name: "Int" });
   });
 
   it("unifies two type variables", () => {
-    const a = freshTypeVar();
-    const b = freshTypeVar();
+    const a = ctx.fresh();
+    const b = ctx.fresh();
     const subst = unify(a, b);
     expect(applySubst(subst, a)).toEqual(applySubst(subst, b));
   });
 
   it("unifies function types", () => {
-    const a = freshTypeVar();
+    const a = ctx.fresh();
     const t1: Type = { kind: "TFn", param: a, ret: { kind: "TCon", name: "Int" } };
     const t2: Type = { kind: "TFn", param: { kind: "TCon", name: "String" }, ret: { kind: "TCon", name: "Int" } };
     const subst = unify(t1, t2);
@@ -37,7 +47,7 @@ describe("Unification", () => {
   });
 
   it("unifies list types", () => {
-    const a = freshTypeVar();
+    const a = ctx.fresh();
     const subst = unify(
       { kind: "TList", element: a },
       { kind: "TList", element: { kind: "TCon", name: "Int" } },
@@ -46,7 +56,7 @@ describe("Unification", () => {
   });
 
   it("performs occurs check", () => {
-    const a = freshTypeVar();
+    const a = ctx.fresh();
     expect(() => unify(a, { kind: "TList", element: a })).toThrow("infinite");
   });
 });
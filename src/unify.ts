@@ -1,4 +1,4 @@
-import { Type } from "./types";
+import { Type, prettyType } from "./types";
 
 export type Substitution = Map<number, Type>;
 
@@ -10,7 +10,7 @@ export function unify(t1: Type, t2: Type, subst: Substitution = new Map()): Subs
   if (t2.kind === "TVar") return bindVar(t2.id, t1, subst);
 
   if (t1.kind === "TCon" && t2.kind === "TCon") {
-    if (t1.name !== t2.name) throw new TypeError(`Cannot unify ${t1.name} with ${t2.name}`);
+    if (t1.name !== t2.name) throw mismatch(t1, t2);
     return subst;
   }
 
@@ -24,7 +24,7 @@ export function unify(t1: Type, t2: Type, subst: Substitution = new Map()): Subs
   }
 
   if (t1.kind === "TTuple" && t2.kind === "TTuple") {
-    if (t1.elements.length !== t2.elements.length) throw new TypeError("Tuple length mismatch");
+    if (t1.elements.length !== t2.elements.length) throw mismatch(t1, t2);
     for (let i = 0; i < t1.elements.length; i++) {
       subst = unify(t1.elements[i], t2.elements[i], subst);
     }
@@ -35,6 +35,24 @@ export function unify(t1: Type, t2: Type, subst: Substitution = new Map()): Subs
     return unify(t1.ok, t2.ok, subst);
   }
 
+  // Undeclared tags are structural: distinct tags are compatible, and only
+  // uses of the same tag constrain each other's arguments
+  if (t1.kind === "TTag" && t2.kind === "TTag") {
+    if (t1.tag !== t2.tag || t1.args.length !== t2.args.length) return subst;
+    for (let i = 0; i < t1.args.length; i++) {
+      subst = unify(t1.args[i], t2.args[i], subst);
+    }
+    return subst;
+  }
+
+  if (t1.kind === "TData" && t2.kind === "TData") {
+    if (t1.name !== t2.name) throw mismatch(t1, t2);
+    for (let i = 0; i < t1.args.length; i++) {
+      subst = unify(t1.args[i], t2.args[i], subst);
+    }
+    return subst;
+  }
+
   if (t1.kind === "TRecord" && t2.kind === "TRecord") {
     for (const [k, v] of t1.fields) {
       const other = t2.fields.get(k);
@@ -43,7 +61,11 @@ export function unify(t1: Type, t2: Type, subst: Substitution = new Map()): Subs
     return subst;
   }
 
-  throw new TypeError(`Cannot unify ${t1.kind} with ${t2.kind}`);
+  throw mismatch(t1, t2);
+}
+
+function mismatch(t1: Type, t2: Type): TypeError {
+  return new TypeError(`Cannot unify ${prettyType(t1)} with ${prettyType(t2)}`);
 }
 
 function bindVar(id: number, t: Type, subst: Substitution): Substitution {
@@ -61,6 +83,7 @@ function occursIn(id: number, t: Type, subst: Substitution): boolean {
   if (t.kind === "TTuple") return t.elements.some((el) => occursIn(id, el, subst));
   if (t.kind === "TResult") return occursIn(id, t.ok, subst);
   if (t.kind === "TRecord") return [...t.fields.values()].some((v) => occursIn(id, v, subst));
+  if (t.kind === "TTag" || t.kind === "TData") return t.args.some((a) => occursIn(id, a, subst));
   return false;
 }
 
@@ -71,12 +94,18 @@ export function applySubst(subst: Substitution, t: Type): Type {
     case "TFn": return { kind: "TFn", param: applySubst(subst, t.param), ret: applySubst(subst, t.ret) };
     case "TList": return { kind: "TList", element: applySubst(subst, t.element) };
     case "TTuple": return { kind: "TTuple", elements: t.elements.map((el) => applySubst(subst, el)) };
-    case "TRecord": return {
-      kind: "TRecord",
-      fields: new Map([...t.fields.entries()].map(([k, v]) => [k, applySubst(subst, v)])),
-      rest: t.rest ? applySubst(subst, t.rest) : null,
-    };
+    case "TRecord": {
+      const fields = new Map([...t.fields.entries()].map(([k, v]) => [k, applySubst(subst, v)]));
+      const rest = t.rest ? applySubst(subst, t.rest) : null;
+      // A row variable bound to another record contributes its fields
+      if (rest?.kind === "TRecord") {
+        for (const [k, v] of rest.fields) if (!fields.has(k)) fields.set(k, v);
+        return { kind: "TRecord", fields, rest: rest.rest };
+      }
+      return { kind: "TRecord", fields, rest };
+    }
     case "TResult": return { kind: "TResult", ok: applySubst(subst, t.ok) };
     case "TTag": return { kind: "TTag", tag: t.tag, args: t.args.map((a) => applySubst(subst, a)) };
+    case "TData": return { kind: "TData", name: t.name, args: t.args.map((a) => applySubst(subst, a)) };
   }
 }
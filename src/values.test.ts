@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { Value, prettyPrint } from "./values";
+import { Json, Value, compareValues, fromRill, prettyPrint, toRill, valuesEqual } from "./values";
 
 describe("Values", () => {
   it("represents primitives", () => {
@@ -40,4 +40,59 @@ describe("Values", () => {
   it("represents unit", () => {
     expect(prettyPrint({ kind: "Unit" })).toBe("()");
   });
+
+  it("compares values structurally", () => {
+    expect(valuesEqual(toRill({ a: [1, 2], b: null }), toRill({ b: null, a: [1, 2] }))).toBe(true);
+    expect(valuesEqual(toRill([1, 2]), toRill([1, 2, 3]))).toBe(false);
+    expect(valuesEqual(toRill(1), toRill(1.5))).toBe(false);
+    expect(valuesEqual({ kind: "Tag", tag: "Ok", args: [toRill(1)] }, { kind: "Tag", tag: "Err", args: [toRill(1)] })).toBe(false);
+  });
+
+  it("compares functions by identity", () => {
+    const f: Value = { kind: "Closure", param: "x", body: {} as any, env: new Map() };
+    expect(valuesEqual(f, f)).toBe(true);
+    expect(valuesEqual(f, { ...f })).toBe(false);
+  });
+
+  it("orders values for sorting", () => {
+    const order = (a: Json, b: Json) => Math.sign(compareValues(toRill(a), toRill(b)));
+    expect(order(1, 2.5)).toBe(-1);
+    expect(order("b", "a")).toBe(1);
+    expect(order(true, false)).toBe(1);
+    expect(order([1, 2], [1, 2, 0])).toBe(-1);
+    expect(order([2], [1, 9])).toBe(1);
+    expect(order(null, null)).toBe(0);
+    expect(compareValues({ kind: "Tag", tag: "Err", args: [toRill(9)] }, { kind: "Tag", tag: "Ok", args: [toRill(1)] })).toBeLessThan(0);
+  });
+
+  it("refuses to order values with no order", () => {
+    expect(() => compareValues(toRill({ a: 1 }), toRill({ a: 2 }))).toThrow("Cannot compare Record values");
+    expect(() => compareValues(toRill(1), toRill("1"))).toThrow("Cannot compare Int with String");
+  });
+
+  describe("JSON conversion", () => {
+    it("maps JSON onto Rill values", () => {
+      expect(prettyPrint(toRill({ name: "Ada", age: 36, score: 9.5, tags: ["a"], vip: true, manager: null })))
+        .toBe('{ name: "Ada", age: 36, score: 9.5, tags: ["a"], vip: true, manager: None }');
+    });
+
+    it("round-trips JSON through Rill values", () => {
+      const samples: Json[] = [
+        null, true, 0, -7, 2.5, "", "text",
+        [], [1, [2, [3]]], {}, { a: { b: [null, false] }, c: "d" },
+      ];
+      for (const json of samples) expect(fromRill(toRill(json))).toEqual(json);
+    });
+
+    it("converts tuples, Unit and tags", () => {
+      expect(fromRill({ kind: "Tuple", elements: [{ kind: "Int", value: 1 }, { kind: "Unit" }] })).toEqual([1, null]);
+      expect(fromRill({ kind: "Tag", tag: "Circle", args: [{ kind: "Float", value: 2 }] }))
+        .toEqual({ tag: "Circle", args: [2] });
+    });
+
+    it("rejects functions", () => {
+      expect(() => fromRill({ kind: "BuiltinFn", name: "f", arity: 1, applied: [], fn: (args) => args[0] }))
+        .toThrow("Cannot convert a function to JSON");
+    });
+  });
 });
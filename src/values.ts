@@ -10,7 +10,8 @@ export type Value =
   | { kind: "Tuple"; elements: Value[] }
   | { kind: "Record"; fields: Map<string, Value> }
   | { kind: "Tag"; tag: string; args: Value[] }
-  | { kind: "Closure"; param: string; body: Expr; env: Map<string, Value> }
+  // `name` is the let binding the closure was defined by, for stack traces
+  | { kind: "Closure"; param: string; body: Expr; env: Map<string, Value>; name?: string }
   | { kind: "BuiltinFn"; name: string; arity: number; applied: Value[]; fn: (args: Value[]) => Value };
 
 export function prettyPrint(v: Value): string {
@@ -36,3 +37,100 @@ export function prettyPrint(v: Value): string {
     case "BuiltinFn": return `<builtin:${v.name}>`;
   }
 }
+
+// Structural equality; functions are only equal to themselves. Record fields
+// compare by name, in any order.
+export function valuesEqual(a: Value, b: Value): boolean {
+  switch (a.kind) {
+    case "Int":
+    case "Float":
+    case "String":
+    case "Bool":
+      return b.kind === a.kind && b.value === a.value;
+    case "Unit":
+      return b.kind === "Unit";
+    case "List":
+    case "Tuple":
+      return b.kind === a.kind && b.elements.length === a.elements.length && a.elements.every((el, i) => valuesEqual(el, b.elements[i]));
+    case "Record":
+      return b.kind === "Record" && b.fields.size === a.fields.size
+        && [...a.fields].every(([k, field]) => b.fields.has(k) && valuesEqual(field, b.fields.get(k)!));
+    case "Tag":
+      return b.kind === "Tag" && b.tag === a.tag && b.args.length === a.args.length && a.args.every((arg, i) => valuesEqual(arg, b.args[i]));
+    case "Closure":
+    case "BuiltinFn":
+      return a === b;
+  }
+}
+
+// An ordering for sort: numbers by value, strings by code unit, false before
+// true, lists and tuples element by element and tags by name, then arguments.
+// Throws for values with no order, such as records and functions.
+export function compareValues(a: Value, b: Value): number {
+  if ((a.kind === "Int" || a.kind === "Float") && (b.kind === "Int" || b.kind === "Float")) return a.value - b.value;
+  if (a.kind === "String" && b.kind === "String") return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  if (a.kind === "Bool" && b.kind === "Bool") return Number(a.value) - Number(b.value);
+  if (a.kind === "Unit" && b.kind === "Unit") return 0;
+  if ((a.kind === "List" && b.kind === "List") || (a.kind === "Tuple" && b.kind === "Tuple")) return compareElements(a.elements, b.elements);
+  if (a.kind === "Tag" && b.kind === "Tag") {
+    return a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : compareElements(a.args, b.args);
+  }
+  throw new Error(a.kind === b.kind ? `Cannot compare ${a.kind} values` : `Cannot compare ${a.kind} with ${b.kind}`);
+}
+
+function compareElements(a: Value[], b: Value[]): number {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    const order = compareValues(a[i], b[i]);
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+}
+
+// The text a value converts to with to_string: strings are used as-is
+export function displayString(v: Value): string {
+  return v.kind === "String" ? v.value : prettyPrint(v);
+}
+
+// ── JSON conversion ──────────────────────────────────────
+
+export type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+// Objects become records, arrays lists, integral numbers Int and other numbers
+// Float, and null the tag None
+export function toRill(json: Json): Value {
+  if (json === null) return { kind: "Tag", tag: "None", args: [] };
+  switch (typeof json) {
+    case "boolean": return { kind: "Bool", value: json };
+    case "number": return Number.isInteger(json) ? { kind: "Int", value: json } : { kind: "Float", value: json };
+    case "string": return { kind: "String", value: json };
+  }
+  if (Array.isArray(json)) return { kind: "List", elements: json.map(toRill) };
+  const fields = new Map<string, Value>();
+  for (const [k, v] of Object.entries(json)) fields.set(k, toRill(v));
+  return { kind: "Record", fields };
+}
+
+// The inverse of toRill. Unit and None become null, tuples arrays, and other
+// tags { tag, args } objects; functions have no JSON form.
+export function fromRill(v: Value): Json {
+  switch (v.kind) {
+    case "Int":
+    case "Float":
+    case "String":
+    case "Bool": return v.value;
+    case "Unit": return null;
+    case "List":
+    case "Tuple": return v.elements.map(fromRill);
+    case "Record": {
+      const obj: { [key: string]: Json } = {};
+      for (const [k, field] of v.fields) obj[k] = fromRill(field);
+      return obj;
+    }
+    case "Tag":
+      if (v.tag === "None" && v.args.length === 0) return null;
+      return { tag: v.tag, args: v.args.map(fromRill) };
+    case "Closure":
+    case "BuiltinFn":
+      throw new Error("Cannot convert a function to JSON");
+  }
+}
@@ -16,6 +16,23 @@ describe("End-to-end: Rill programs", () => {
     expect(result.output).toBe("55");
   });
 
+  it("mutually recursive top-level functions", () => {
+    const result = runSource(`
+      type Expr = Num(Int) | Add(Expr, Expr) | Neg(Expr)
+
+      let rec eval = fn(e) ->
+        match e {
+          Num(n) -> n,
+          Add(a, b) -> sum(a, b),
+          Neg(a) -> 0 - eval(a)
+        }
+      and sum = fn(a, b) -> eval(a) + eval(b)
+
+      eval(Add(Num(2), Neg(Add(Num(1), Num(4)))))
+    `);
+    expect(result.output).toBe("-3");
+  });
+
   it("pipeline with map, filter, fold", () => {
     const result = runSource(`
       [1, 2, 3, 4, 5]
@@ -69,6 +86,27 @@ describe("End-to-end: Rill programs", () => {
     expect(result.output).toBe("12");
   });
 
+  it("declared sum types with pattern matching", () => {
+    const result = runSource(`
+      type Shape = Circle(Float) | Rect(Float, Float) in
+      let area = fn(s) -> match s {
+        Circle(r) -> r * r * 3.0,
+        Rect(w, h) -> w * h
+      }
+      in [Circle(1.0), Rect(3.0, 4.0)] |> map(area)
+    `);
+    expect(result.output).toBe("[3, 12]");
+  });
+
+  it("reports non-exhaustive matches on declared types", () => {
+    const result = runSource(`
+      type Shape = Circle(Float) | Rect(Float, Float) in
+      let area = fn(s) -> match s { Circle(r) -> r * r * 3.0 }
+      in area(Circle(1.0))
+    `);
+    expect(result.error).toContain("Non-exhaustive match: missing Rect");
+  });
+
   it("partial application with pipes", () => {
     const result = runSource(`
       let add = fn(a, b) -> a + b